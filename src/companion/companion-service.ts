@@ -87,6 +87,17 @@ export class CompanionService {
         vscode.window.showInformationMessage(
             `Added ${problem.tests.length} test cases from "${problem.name}"`
         );
+
+        // Interactive problems cannot be judged without an interactor
+        if (problem.interactive) {
+            const action = await vscode.window.showWarningMessage(
+                `"${problem.name}" is interactive. Set an interactor to judge it.`,
+                'Set Interactor'
+            );
+            if (action === 'Set Interactor') {
+                await vscode.commands.executeCommand('fastjudge.setInteractor');
+            }
+        }
     }
 
     /**
@@ -220,5 +231,9 @@ export class CompanionService {
                 test.output
             );
         }
+
+        if (problem.memoryLimit > 0) {
+            await this.testCaseManager.updateFileSettings(filePath, { memoryLimitMb: problem.memoryLimit });
+        }
     }
 }
@@ -4,7 +4,17 @@
  */
 
 import * as vscode from 'vscode';
-import { Language, LanguageConfig, ExecutionMode, ComparisonMode } from '../types';
+import {
+    Language,
+    LanguageConfig,
+    ExecutionMode,
+    ComparisonMode,
+    FloatTolerance,
+    TimeLimitMode,
+    CacheLimits,
+    SandboxOptions,
+    BenchmarkOptions
+} from '../types';
 
 
 /**
@@ -21,18 +31,100 @@ export function getTimeLimitMs(): number {
     return getConfig().get<number>('general.timeLimitMs', 2000);
 }
 
+export function getTimeLimitMode(): TimeLimitMode {
+    return getConfig().get<TimeLimitMode>('general.timeLimitMode', 'wall');
+}
+
+export function getMemoryLimitMb(): number {
+    return getConfig().get<number>('general.memoryLimitMb', 256);
+}
+
+export function getOutputLimitMb(): number {
+    return getConfig().get<number>('general.outputLimitMb', 64);
+}
+
+export function getCompileTimeLimitMs(): number {
+    return getConfig().get<number>('general.compileTimeLimitMs', 30000);
+}
+
 export function getComparisonMode(): ComparisonMode {
     return getConfig().get<ComparisonMode>('general.comparisonMode', 'trim');
 }
 
+export function getFloatTolerance(): FloatTolerance {
+    return {
+        absoluteError: getConfig().get<number>('general.floatAbsoluteError', 1e-6),
+        relativeError: getConfig().get<number>('general.floatRelativeError', 1e-6),
+    };
+}
+
 export function getExecutionMode(): ExecutionMode {
     return getConfig().get<ExecutionMode>('general.executionMode', 'sequential-live');
 }
 
+export function getMaxParallelTests(): number {
+    return getConfig().get<number>('general.maxParallelTests', 0);
+}
+
 export function getResultRetentionDays(): number {
     return getConfig().get<number>('general.resultRetentionDays', 7);
 }
 
+export function getBuildProfile(): string {
+    return getConfig().get<string>('general.buildProfile', 'default');
+}
+
+/**
+ * Select the build profile for the workspace (or globally without a workspace)
+ */
+export async function setBuildProfile(profile: string): Promise<void> {
+    const target = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+    await getConfig().update('general.buildProfile', profile, target);
+}
+
+/**
+ * Stress test settings
+ */
+export function getStressMaxIterations(): number {
+    return getConfig().get<number>('stress.maxIterations', 1000);
+}
+
+/**
+ * Benchmark settings
+ */
+export function getBenchmarkOptions(): BenchmarkOptions {
+    return {
+        runs: getConfig().get<number>('benchmark.runs', 10),
+        warmupRuns: getConfig().get<number>('benchmark.warmupRuns', 1),
+    };
+}
+
+/**
+ * Compilation cache settings
+ */
+export function getCacheLimits(): CacheLimits {
+    return {
+        maxSizeMb: getConfig().get<number>('cache.maxSizeMb', 500),
+        maxAgeDays: getConfig().get<number>('cache.maxAgeDays', 30),
+    };
+}
+
+/**
+ * Sandbox settings
+ */
+export function getSandboxOptions(): SandboxOptions {
+    return {
+        enabled: getConfig().get<boolean>('sandbox.enabled', false),
+        stackSizeMb: getConfig().get<number>('sandbox.stackSizeMb', 256),
+        maxProcesses: getConfig().get<number>('sandbox.maxProcesses', 256),
+        maxFileSizeMb: getConfig().get<number>('sandbox.maxFileSizeMb', 64),
+        maxOpenFiles: getConfig().get<number>('sandbox.maxOpenFiles', 64),
+        isolate: getConfig().get<boolean>('sandbox.isolate', true),
+    };
+}
+
 /**
  * Companion settings
  */
@@ -56,9 +148,22 @@ export function getAllSettings() {
     const config = getConfig();
     return {
         timeLimitMs: config.get<number>('general.timeLimitMs', 2000),
+        timeLimitMode: config.get<string>('general.timeLimitMode', 'wall'),
+        memoryLimitMb: config.get<number>('general.memoryLimitMb', 256),
+        outputLimitMb: config.get<number>('general.outputLimitMb', 64),
         comparisonMode: config.get<string>('general.comparisonMode', 'trim'),
+        floatAbsoluteError: config.get<number>('general.floatAbsoluteError', 1e-6),
+        floatRelativeError: config.get<number>('general.floatRelativeError', 1e-6),
         executionMode: config.get<string>('general.executionMode', 'sequential-live'),
+        maxParallelTests: config.get<number>('general.maxParallelTests', 0),
         resultRetentionDays: config.get<number>('general.resultRetentionDays', 7),
+        buildProfile: config.get<string>('general.buildProfile', 'default'),
+        compileTimeLimitMs: config.get<number>('general.compileTimeLimitMs', 30000),
+        stressMaxIterations: config.get<number>('stress.maxIterations', 1000),
+        benchmark: getBenchmarkOptions(),
+        cacheMaxSizeMb: config.get<number>('cache.maxSizeMb', 500),
+        cacheMaxAgeDays: config.get<number>('cache.maxAgeDays', 30),
+        sandbox: getSandboxOptions(),
         languages: config.get('languages', {}),
     };
 }
@@ -0,0 +1,50 @@
+/**
+ * Benchmark Statistics
+ * Summarizes the time and memory of a test over repeated runs, since a single
+ * measurement is too noisy to compare two versions of a solution.
+ */
+
+import { BenchmarkResult, BenchmarkStats, ExecutionResult } from '../types';
+
+/**
+ * Min, median, max and sample standard deviation of a non-empty list of values
+ */
+export function computeStats(values: number[]): BenchmarkStats {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 === 1
+        ? sorted[middle]
+        : (sorted[middle - 1] + sorted[middle]) / 2;
+
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+    const variance = sorted.length > 1
+        ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (sorted.length - 1)
+        : 0;
+
+    return {
+        min: sorted[0],
+        median,
+        max: sorted[sorted.length - 1],
+        stddev: Math.sqrt(variance),
+    };
+}
+
+/**
+ * Summarize the measured runs of a benchmark
+ * @param samples Runs after the warm-up
+ * @param error Why the benchmark stopped before all runs, if it did
+ */
+export function summarizeBenchmark(samples: ExecutionResult[], warmupRuns: number, error?: string): BenchmarkResult {
+    const memory = samples.map(sample => sample.memoryUsageKb);
+
+    return {
+        runs: samples.length,
+        warmupRuns,
+        timeMs: samples.length > 0 ? computeStats(samples.map(sample => sample.executionTimeMs)) : undefined,
+        // Only when every run was measured (Linux)
+        memoryKb: samples.length > 0 && memory.every(kb => kb !== undefined)
+            ? computeStats(memory as number[])
+            : undefined,
+        error,
+    };
+}
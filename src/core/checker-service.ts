@@ -0,0 +1,106 @@
+/**
+ * FastJudge Checker Service
+ * Runs custom checker (special judge) programs using the testlib convention:
+ *
+ *   checker <input-file> <output-file> <answer-file>
+ *
+ * Exit codes: 0 = OK, 1 = WA, 2 = Presentation Error, 3 = checker failure.
+ * The checker's verdict message is read from stdout, falling back to stderr.
+ */
+
+import { CompiledProgram, Verdict } from '../types';
+import { ExecutorService } from './executor-service';
+
+/** Time limit for a single checker run in milliseconds */
+const CHECKER_TIME_LIMIT_MS = 10000;
+
+/** testlib exit codes */
+const EXIT_OK = 0;
+const EXIT_WA = 1;
+const EXIT_PE = 2;
+const EXIT_FAIL = 3;
+const EXIT_DIRT = 4;
+const EXIT_UNEXPECTED_EOF = 8;
+
+export interface CheckerFiles {
+    inputPath: string;
+    outputPath: string;
+    answerPath: string;
+}
+
+export interface CheckerResult {
+    verdict: Verdict;
+    message: string;
+    aborted?: boolean;
+}
+
+export class CheckerService {
+    private executor: ExecutorService;
+
+    constructor(executor?: ExecutorService) {
+        this.executor = executor || new ExecutorService(CHECKER_TIME_LIMIT_MS);
+    }
+
+    /**
+     * Run the checker on a finished test and map its result to a verdict
+     */
+    async check(checker: CompiledProgram, files: CheckerFiles, signal?: AbortSignal): Promise<CheckerResult> {
+        const execResult = await this.executor.execute(
+            checker.sourcePath,
+            checker.outputDir,
+            '',
+            checker.language,
+            signal,
+            { args: [files.inputPath, files.outputPath, files.answerPath] }
+        );
+
+        if (execResult.aborted) {
+            return { verdict: 'STOPPED', message: '', aborted: true };
+        }
+
+        if (execResult.timedOut) {
+            return {
+                verdict: 'IE',
+                message: `Checker exceeded time limit (>${this.executor.getTimeLimit()}ms)`,
+            };
+        }
+
+        if (execResult.signal) {
+            return {
+                verdict: 'IE',
+                message: `Checker crashed (${execResult.signal})${execResult.stderr ? `: ${execResult.stderr.trim()}` : ''}`,
+            };
+        }
+
+        const message = execResult.stdout.trim() || execResult.stderr.trim();
+        return parseCheckerExit(execResult.exitCode, message);
+    }
+}
+
+/**
+ * Map a testlib-style exit code and message to a verdict
+ * (shared by checkers and interactors)
+ */
+export function parseCheckerExit(exitCode: number, message: string, programLabel = 'Checker'): CheckerResult {
+    switch (exitCode) {
+        case EXIT_OK:
+            return { verdict: 'AC', message };
+
+        case EXIT_WA:
+        case EXIT_DIRT:
+        case EXIT_UNEXPECTED_EOF:
+            return { verdict: 'WA', message: `Wrong Answer${message ? `: ${message}` : ''}` };
+
+        case EXIT_PE:
+            return { verdict: 'WA', message: `Presentation Error${message ? `: ${message}` : ''}` };
+
+        case EXIT_FAIL:
+            return { verdict: 'IE', message: `${programLabel} failed${message ? `: ${message}` : ''}` };
+
+        default:
+            return {
+                verdict: 'IE',
+                message: `${programLabel} exited with unexpected code ${exitCode}${message ? `: ${message}` : ''}`,
+            };
+    }
+}
@@ -6,34 +6,45 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { spawn } from 'child_process';
-import { CompileResult, CacheEntry, ICompilationCache, ILanguageProvider } from '../types';
-import { languageRegistry, CustomLanguageProvider } from './language-registry';
+import { execFile } from 'child_process';
+import {
+    CompileResult,
+    CompileOptions,
+    CacheEntry,
+    ICompilationCache,
+    ILanguageProvider,
+    RecompileReason
+} from '../types';
+import { languageRegistry, CustomLanguageProvider, DEFAULT_PROFILE } from './language-registry';
+import { findLocalDependencies } from './dependency-scanner';
+import { PrecompiledHeader, PrecompiledHeaderService } from './precompiled-header';
+import { parseCompilerDiagnostics } from './diagnostic-parser';
+import { killProcessTree, spawnProcessTree } from './process-tree';
 
 // ============================================================================
 // Cache Implementations
 // ============================================================================
 
 /**
- * In-memory cache implementation (v1)
- * Extensible pattern for future disk persistence
+ * In-memory cache implementation
+ * Forgets all builds when the window closes (see DiskCache for persistence)
  */
 export class MemoryCache implements ICompilationCache {
     private cache = new Map<string, CacheEntry>();
 
-    get(filePath: string): CacheEntry | undefined {
+    async get(filePath: string): Promise<CacheEntry | undefined> {
         return this.cache.get(filePath);
     }
 
-    set(filePath: string, entry: CacheEntry): void {
+    async set(filePath: string, entry: CacheEntry): Promise<void> {
         this.cache.set(filePath, entry);
     }
 
-    delete(filePath: string): void {
+    async delete(filePath: string): Promise<void> {
         this.cache.delete(filePath);
     }
 
-    clear(): void {
+    async clear(): Promise<void> {
         this.cache.clear();
     }
 }
@@ -42,23 +53,73 @@ export class MemoryCache implements ICompilationCache {
 // Compiler Service
 // ============================================================================
 
+/** Flags appended to C/C++ compile commands for sanitizer builds */
+const SANITIZER_FLAGS = ['-fsanitize=address,undefined', '-fno-sanitize-recover=all', '-g', '-fno-omit-frame-pointer'];
+
+/** Sanitizer builds go to this subdirectory so they never replace the regular build */
+const SANITIZER_OUTPUT_SUBDIR = 'sanitize';
+
+/** Builds of non-default profiles go to <source output dir>/profiles/<name> */
+const PROFILE_OUTPUT_SUBDIR = 'profiles';
+
+/** Sources outside the workspace are built in <outputDir>/@external/<hash of their directory> */
+const EXTERNAL_OUTPUT_SUBDIR = '@external';
+
+/** gcc and clang (optionally versioned), which understand SANITIZER_FLAGS and precompiled headers */
+const GCC_COMPATIBLE_COMPILERS = /^(g\+\+|gcc|clang\+\+|clang|c\+\+|cc)(-\d+)?(\.exe)?$/i;
+
+/** Time limit for "<compiler> --version" in milliseconds */
+const VERSION_TIMEOUT_MS = 5000;
+
+/** Default time limit for a compile in milliseconds (0 = no limit) */
+export const DEFAULT_COMPILE_TIME_LIMIT_MS = 30000;
+
+/** Fingerprint of a build, compared against the cached entry */
+interface BuildFingerprint {
+    contentHash: string;
+    commandHash: string;
+    toolchainVersion: string;
+}
+
+/** Everything needed to run a compile */
+interface BuildPlan {
+    compileCmd: { command: string, args: string[] };
+    fingerprint: BuildFingerprint;
+    precompiledHeader?: PrecompiledHeader;
+}
+
+/** Called after every compile that ran the compiler (not for cached builds) */
+export type OnCompiledCallback = (sourcePath: string, result: CompileResult) => void;
+
 export class CompilerService {
     private outputDir: string;
     private cache: ICompilationCache;
+    private workspaceRoot?: string;
+    /** Compiler versions by binary (path, modification time and size), so that updates are noticed */
+    private toolchainVersions = new Map<string, Promise<string>>();
+    private precompiledHeaders: PrecompiledHeaderService;
+    private onCompiledCallback: OnCompiledCallback | null = null;
+    private compileTimeLimitMs = DEFAULT_COMPILE_TIME_LIMIT_MS;
 
     constructor(
         outputDir: string,
-        cache?: ICompilationCache
+        cache?: ICompilationCache,
+        workspaceRoot?: string
     ) {
         this.outputDir = outputDir;
         this.cache = cache || new MemoryCache();
+        this.workspaceRoot = workspaceRoot;
+        this.precompiledHeaders = new PrecompiledHeaderService(outputDir);
     }
 
     /**
      * Compile source file and return executable path
-     * Uses caching to skip compilation if source hasn't changed
+     * Uses caching to skip compilation if neither the source, its extra sources,
+     * any local file they include or import, the compile command, nor the
+     * compiler's version has changed.
+     * Each build profile (and sanitizer build) has its own output directory and cache entry.
      */
-    async compile(sourcePath: string): Promise<CompileResult> {
+    async compile(sourcePath: string, compileOptions: CompileOptions = {}): Promise<CompileResult> {
         const startTime = Date.now();
 
         // Detect language
@@ -71,56 +132,138 @@ export class CompilerService {
             };
         }
 
-        const compileCmd = provider.getCompileCommand(sourcePath, this.outputDir);
+        // Languages without the requested profile use their default profile
+        const profile = compileOptions.profile && provider.getProfiles().includes(compileOptions.profile)
+            ? compileOptions.profile
+            : DEFAULT_PROFILE;
+        const options: CompileOptions = { ...compileOptions, profile };
+        const outputDir = this.getOutputDir(sourcePath, options);
+        const compileCmd = provider.getCompileCommand(sourcePath, outputDir, options.profile);
 
         // For interpreted languages, no compilation needed
         if (!compileCmd) {
             return {
                 success: true,
-                outputDir: this.outputDir,
+                outputDir,
                 compilationTimeMs: 0,
                 cached: true,
             };
         }
 
-        // Read source and compute hash
-        let content: string;
-        try {
-            content = await fs.readFile(sourcePath, 'utf-8');
-        } catch (err) {
+        if (options.sanitize && !isGccCompatible(compileCmd.command)) {
             return {
                 success: false,
-                error: `Cannot read source file: ${sourcePath}`,
+                error: `Sanitizers need a gcc or clang compile command (got "${compileCmd.command}")`,
                 compilationTimeMs: Date.now() - startTime,
             };
         }
+        if (options.extraSources?.length) {
+            insertExtraSources(compileCmd.args, sourcePath, options.extraSources);
+        }
+        if (options.sanitize) {
+            compileCmd.args.push(...SANITIZER_FLAGS);
+        }
 
-        const hash = this.computeHash(content);
-
-        // Check cache
-        const cached = this.cache.get(sourcePath);
-        if (cached && cached.contentHash === hash) {
-            // Verify the compiled output still exists
-            if (cached.executablePath) {
-                try {
-                    await fs.access(cached.executablePath);
-                } catch {
-                    // Executable deleted, invalidate cache and recompile
-                    this.cache.delete(sourcePath);
-                    // Fall through to recompile below
-                    return this.recompile(sourcePath, provider, hash, startTime);
-                }
-            }
-
+        // Read sources and compute hash
+        let contentHash: string;
+        try {
+            contentHash = await this.computeSourceHash(sourcePath, options.extraSources ?? []);
+        } catch (err) {
             return {
-                success: true,
-                outputDir: cached.outputDir,
+                success: false,
+                error: `Cannot read source file: ${(err as NodeJS.ErrnoException).path ?? sourcePath}`,
                 compilationTimeMs: Date.now() - startTime,
-                cached: true,
             };
         }
 
-        return this.recompile(sourcePath, provider, hash, startTime);
+        const toolchainVersion = await this.getToolchainVersion(compileCmd.command);
+
+        // Precompiled header for exactly these flags (gcc/clang)
+        const header = provider.getPrecompiledHeader(options.profile);
+        let precompiledHeader: PrecompiledHeader | undefined;
+        if (header && isGccCompatible(compileCmd.command)) {
+            const flags = getHeaderFlags(compileCmd.args, [sourcePath, ...(options.extraSources ?? [])]);
+            precompiledHeader = this.precompiledHeaders.resolve(header, compileCmd.command, flags, toolchainVersion);
+            compileCmd.args.unshift('-include', precompiledHeader.wrapperPath);
+        }
+
+        const fingerprint: BuildFingerprint = {
+            contentHash,
+            commandHash: this.computeHash(JSON.stringify([compileCmd.command, ...compileCmd.args])),
+            toolchainVersion,
+        };
+
+        // Check cache (each profile and sanitizer build is cached separately)
+        const cacheKey = this.getCacheKey(sourcePath, options);
+        const cached = await this.cache.get(cacheKey);
+        const reason = await this.getRecompileReason(cached, fingerprint);
+        if (reason) {
+            const plan: BuildPlan = { compileCmd, fingerprint, precompiledHeader };
+            return this.recompile(sourcePath, provider, plan, reason, startTime, options);
+        }
+
+        await this.cache.set(cacheKey, { ...cached!, lastUsedAt: Date.now() });
+
+        return {
+            success: true,
+            outputDir: cached!.outputDir,
+            compilationTimeMs: Date.now() - startTime,
+            cached: true,
+        };
+    }
+
+    /**
+     * Set the compile time limit in milliseconds (0 = no limit)
+     */
+    setCompileTimeLimit(ms: number): void {
+        this.compileTimeLimitMs = ms;
+    }
+
+    /**
+     * Register callback for finished compiles (e.g., to publish their diagnostics)
+     */
+    onCompiled(callback: OnCompiledCallback): void {
+        this.onCompiledCallback = callback;
+    }
+
+    /**
+     * Whether the source's compile command can build with sanitizers (gcc/clang)
+     */
+    supportsSanitizers(sourcePath: string): boolean {
+        const compileCmd = languageRegistry.detectProvider(sourcePath)?.getCompileCommand(sourcePath, this.outputDir);
+        return !!compileCmd && isGccCompatible(compileCmd.command);
+    }
+
+    /**
+     * Why a cached build cannot be reused, or undefined if it can
+     */
+    private async getRecompileReason(
+        cached: CacheEntry | undefined,
+        fingerprint: BuildFingerprint
+    ): Promise<RecompileReason | undefined> {
+        if (!cached) {
+            return 'notCached';
+        }
+        if (cached.contentHash !== fingerprint.contentHash) {
+            return 'sourceChanged';
+        }
+        if (cached.commandHash !== fingerprint.commandHash) {
+            return 'commandChanged';
+        }
+        if (cached.toolchainVersion !== fingerprint.toolchainVersion) {
+            return 'toolchainChanged';
+        }
+
+        // Verify the compiled output still exists
+        if (cached.executablePath) {
+            try {
+                await fs.access(cached.executablePath);
+            } catch {
+                return 'outputMissing';
+            }
+        }
+
+        return undefined;
     }
 
     /**
@@ -129,55 +272,140 @@ export class CompilerService {
     private async recompile(
         sourcePath: string,
         provider: ILanguageProvider,
-        hash: string,
-        startTime: number
+        plan: BuildPlan,
+        reason: RecompileReason,
+        startTime: number,
+        options: CompileOptions
     ): Promise<CompileResult> {
-        // Ensure output directory exists
-        await fs.mkdir(this.outputDir, { recursive: true });
+        const outputDir = this.getOutputDir(sourcePath, options);
 
-        const compileCmd = provider.getCompileCommand(sourcePath, this.outputDir);
-        if (!compileCmd) {
-            return { success: false, error: 'No compile command', compilationTimeMs: Date.now() - startTime };
+        // Ensure output directory exists
+        await fs.mkdir(outputDir, { recursive: true });
+
+        // Build the precompiled header first if needed; using an existing one saves its build time.
+        // The build counts against the compile time limit and stops with the compile.
+        const timeLimitMs = this.compileTimeLimitMs;
+        const pchStartTime = Date.now();
+        const pchStatus = plan.precompiledHeader
+            ? await this.precompiledHeaders.ensure(plan.precompiledHeader, { signal: options.signal, timeLimitMs })
+            : undefined;
+
+        let result: CompileResult;
+        if (pchStatus?.aborted) {
+            result = { success: false, error: 'Compilation cancelled', compilationTimeMs: 0, aborted: true };
+        } else if (pchStatus?.timedOut) {
+            result = { success: false, error: compileTimeoutError(timeLimitMs), compilationTimeMs: 0, timedOut: true };
+        } else {
+            // Without the wrapper the header is included by the source as usual
+            const compileCmd = pchStatus?.wrapperMissing
+                ? { ...plan.compileCmd, args: withoutWrapper(plan.compileCmd.args, plan.precompiledHeader!.wrapperPath) }
+                : plan.compileCmd;
+            const remainingMs = timeLimitMs > 0 ? Math.max(timeLimitMs - (Date.now() - pchStartTime), 1) : 0;
+            result = await this.runCompiler(
+                sourcePath, compileCmd, outputDir, remainingMs, timeLimitMs,
+                provider.getDiagnosticPattern(), options.signal
+            );
         }
 
-        const result = await this.runCompiler(sourcePath, compileCmd);
-
         if (result.success) {
             // Compute executable path for cache validation
             const executablePath = (provider instanceof CustomLanguageProvider)
-                ? provider.getExecutablePath(sourcePath, this.outputDir)
+                ? provider.getExecutablePath(sourcePath, outputDir, options.profile)
                 : undefined;
 
-            this.cache.set(sourcePath, {
-                contentHash: hash,
+            await this.cache.set(this.getCacheKey(sourcePath, options), {
+                ...plan.fingerprint,
                 outputDir: result.outputDir!,
                 executablePath,
                 compiledAt: Date.now(),
+                sizeBytes: executablePath ? await getFileSize(executablePath) : undefined,
             });
         }
 
-        return {
+        const compileResult: CompileResult = {
             ...result,
             compilationTimeMs: Date.now() - startTime,
             cached: false,
+            recompileReason: reason,
+            precompiledHeader: pchStatus?.ready ? plan.precompiledHeader!.header : undefined,
+            timeSavedMs: pchStatus?.ready && !pchStatus.built ? pchStatus.buildTimeMs : undefined,
         };
+
+        // Output of a stopped compiler is incomplete; keep the previous diagnostics
+        if (this.onCompiledCallback && !result.timedOut && !result.aborted) {
+            this.onCompiledCallback(sourcePath, compileResult);
+        }
+
+        return compileResult;
+    }
+
+    /**
+     * First line of "<compiler> --version" (empty if the compiler does not report one)
+     * Asked again whenever the binary the command resolves to changes.
+     */
+    private async getToolchainVersion(command: string): Promise<string> {
+        const identity = await getToolchainIdentity(command);
+        let version = this.toolchainVersions.get(identity);
+        if (!version) {
+            version = new Promise((resolve) => {
+                execFile(command, ['--version'], { timeout: VERSION_TIMEOUT_MS }, (_error, stdout, stderr) => {
+                    const output = `${stdout ?? ''}\n${stderr ?? ''}`;
+                    resolve(output.split('\n').map(line => line.trim()).find(line => line.length > 0) ?? '');
+                });
+            });
+            this.toolchainVersions.set(identity, version);
+        }
+        return version;
     }
 
     /**
      * Run the actual compiler command
+     * Errors and warnings are parsed from its output, including for successful compiles.
+     * The compiler is killed (with the cc1plus/as/ld processes it started) when it
+     * exceeds the compile time limit or the signal is aborted.
+     * @param timeLimitMs Time left for the compiler (0 = no limit)
+     * @param configuredLimitMs The compile time limit reported on timeout
      */
     private async runCompiler(
         sourcePath: string,
-        compileCmd: { command: string, args: string[] }
+        compileCmd: { command: string, args: string[] },
+        outputDir: string,
+        timeLimitMs: number,
+        configuredLimitMs: number,
+        diagnosticPattern?: string,
+        signal?: AbortSignal
     ): Promise<CompileResult> {
         const { command, args } = compileCmd;
+        const cwd = path.dirname(sourcePath);
 
         return new Promise((resolve) => {
-            const proc = spawn(command, args, {
-                cwd: path.dirname(sourcePath),
+            if (signal?.aborted) {
+                resolve({ success: false, error: 'Compilation cancelled', compilationTimeMs: 0, aborted: true });
+                return;
+            }
+
+            // Own process group on Unix, so the whole compiler pipeline can be killed
+            const proc = spawnProcessTree(command, args, {
+                cwd,
                 shell: false,
             });
 
+            let stopReason: 'timedOut' | 'aborted' | undefined;
+            const stop = (reason: 'timedOut' | 'aborted') => {
+                if (!stopReason) {
+                    stopReason = reason;
+                    killProcessTree(proc);
+                }
+            };
+
+            const timer = timeLimitMs > 0 ? setTimeout(() => stop('timedOut'), timeLimitMs) : undefined;
+            const onAbort = () => stop('aborted');
+            signal?.addEventListener('abort', onAbort);
+            const cleanup = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+            };
+
             let stderr = '';
             let stdout = '';
 
@@ -190,6 +418,7 @@ export class CompilerService {
             });
 
             proc.on('error', (err) => {
+                cleanup();
                 resolve({
                     success: false,
                     error: `Compiler not found: ${command}. ${err.message}`,
@@ -198,23 +427,80 @@ export class CompilerService {
             });
 
             proc.on('close', (code) => {
+                cleanup();
+
+                if (stopReason === 'aborted') {
+                    resolve({ success: false, error: 'Compilation cancelled', compilationTimeMs: 0, aborted: true });
+                    return;
+                }
+                if (stopReason === 'timedOut') {
+                    resolve({
+                        success: false,
+                        error: compileTimeoutError(configuredLimitMs),
+                        compilationTimeMs: 0,
+                        timedOut: true,
+                    });
+                    return;
+                }
+
+                const diagnostics = parseCompilerDiagnostics(`${stderr}\n${stdout}`, cwd, diagnosticPattern);
+
                 if (code === 0) {
                     resolve({
                         success: true,
-                        outputDir: this.outputDir,
+                        outputDir,
                         compilationTimeMs: 0,
+                        diagnostics,
                     });
                 } else {
                     resolve({
                         success: false,
                         error: stderr || stdout || `Compilation failed with exit code ${code}`,
                         compilationTimeMs: 0,
+                        diagnostics,
                     });
                 }
             });
         });
     }
 
+    /**
+     * Output directory of a source file's build for a profile
+     */
+    private getOutputDir(sourcePath: string, options: CompileOptions): string {
+        const sourceDir = this.getSourceOutputDir(sourcePath);
+        const profileDir = options.profile && options.profile !== DEFAULT_PROFILE
+            ? path.join(sourceDir, PROFILE_OUTPUT_SUBDIR, options.profile)
+            : sourceDir;
+        return options.sanitize ? path.join(profileDir, SANITIZER_OUTPUT_SUBDIR) : profileDir;
+    }
+
+    /**
+     * Directory holding all builds of a source file (or of all sources in a folder),
+     * mirroring its workspace-relative path so that a/solve.cpp and b/solve.cpp never collide
+     */
+    private getSourceOutputDir(sourcePath: string): string {
+        const absolutePath = path.resolve(sourcePath);
+        const relative = this.workspaceRoot ? path.relative(this.workspaceRoot, absolutePath) : '';
+        if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+            return path.join(this.outputDir, relative);
+        }
+
+        const dirHash = this.computeHash(path.dirname(absolutePath));
+        return path.join(this.outputDir, EXTERNAL_OUTPUT_SUBDIR, dirHash, path.basename(absolutePath));
+    }
+
+    /**
+     * Cache key of a source file's build for a profile
+     */
+    private getCacheKey(sourcePath: string, options: CompileOptions): string {
+        let key = sourcePath;
+        if (options.profile && options.profile !== DEFAULT_PROFILE) {
+            key += `#${options.profile}`;
+        }
+        return options.sanitize ? `${key}#sanitize` : key;
+    }
+
     /**
      * Compute MD5 hash of content
      */
@@ -222,17 +508,131 @@ export class CompilerService {
         return crypto.createHash('md5').update(content).digest('hex');
     }
 
+    /**
+     * Compute MD5 hash of the source, its extra sources and their local dependencies
+     */
+    private async computeSourceHash(sourcePath: string, extraSources: string[]): Promise<string> {
+        const hash = crypto.createHash('md5');
+        hash.update(await fs.readFile(sourcePath, 'utf-8'));
+
+        const sources = [sourcePath, ...extraSources];
+        const dependencies = await findLocalDependencies(sources, this.workspaceRoot);
+        for (const filePath of [...extraSources, ...dependencies]) {
+            hash.update(`\0${filePath}\0`);
+            hash.update(await fs.readFile(filePath, 'utf-8'));
+        }
+
+        return hash.digest('hex');
+    }
+
     /**
      * Clear compilation cache
      */
-    clearCache(): void {
-        this.cache.clear();
+    async clearCache(): Promise<void> {
+        this.toolchainVersions.clear();
+        await this.cache.clear();
     }
 
     /**
-     * Invalidate cache for a specific file
+     * Delete the builds of a deleted source file (or of all sources in a deleted folder)
      */
-    invalidateCache(filePath: string): void {
-        this.cache.delete(filePath);
+    async removeArtifacts(targetPath: string): Promise<void> {
+        const provider = languageRegistry.detectProvider(targetPath);
+        for (const profile of provider?.getProfiles() ?? []) {
+            await this.cache.delete(this.getCacheKey(targetPath, { profile }));
+            await this.cache.delete(this.getCacheKey(targetPath, { profile, sanitize: true }));
+        }
+
+        await fs.rm(this.getSourceOutputDir(targetPath), { recursive: true, force: true });
+    }
+
+    /**
+     * Invalidate cache for a specific file and build profile
+     */
+    async invalidateCache(filePath: string, options: CompileOptions = {}): Promise<void> {
+        await this.cache.delete(this.getCacheKey(filePath, options));
+    }
+}
+
+/**
+ * Add extra sources right after the main source in the compile arguments
+ * (or at the end if the command does not name the main source)
+ */
+function insertExtraSources(args: string[], sourcePath: string, extraSources: string[]): void {
+    const index = args.indexOf(sourcePath);
+    args.splice(index === -1 ? args.length : index + 1, 0, ...extraSources);
+}
+
+async function getFileSize(filePath: string): Promise<number | undefined> {
+    try {
+        return (await fs.stat(filePath)).size;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Compile flags without the sources and output file, for building a matching precompiled header
+ */
+function getHeaderFlags(args: string[], sources: string[]): string[] {
+    const flags: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '-o') {
+            i++;
+        } else if (!sources.includes(args[i])) {
+            flags.push(args[i]);
+        }
     }
+    return flags;
+}
+
+/**
+ * The compiler binary a command runs: its real path (through PATH and symlinks such as
+ * update-alternatives), modification time and size. Falls back to the command itself
+ * if the binary cannot be found.
+ */
+async function getToolchainIdentity(command: string): Promise<string> {
+    const candidates = path.basename(command) !== command
+        ? [command]
+        : (process.env.PATH ?? '').split(path.delimiter)
+            .filter(dir => dir.length > 0)
+            .map(dir => path.join(dir, command));
+    const extensions = process.platform === 'win32' && !path.extname(command) ? ['.exe', ''] : [''];
+
+    for (const candidate of candidates) {
+        for (const ext of extensions) {
+            try {
+                const realPath = await fs.realpath(candidate + ext);
+                const stats = await fs.stat(realPath);
+                if (stats.isFile()) {
+                    return `${realPath}:${stats.mtimeMs}:${stats.size}`;
+                }
+            } catch {
+                // Not in this directory
+            }
+        }
+    }
+    return command;
+}
+
+/**
+ * Compile arguments without "-include <wrapper>"
+ */
+function withoutWrapper(args: string[], wrapperPath: string): string[] {
+    const index = args.indexOf(wrapperPath);
+    return index > 0 && args[index - 1] === '-include'
+        ? [...args.slice(0, index - 1), ...args.slice(index + 1)]
+        : args;
+}
+
+/**
+ * Error of a compile stopped by the compile time limit
+ */
+function compileTimeoutError(timeLimitMs: number): string {
+    return `Compilation timed out: the compiler was stopped after ${timeLimitMs / 1000}s `
+        + '(fastjudge.general.compileTimeLimitMs)';
+}
+
+function isGccCompatible(command: string): boolean {
+    return GCC_COMPATIBLE_COMPILERS.test(path.basename(command));
 }
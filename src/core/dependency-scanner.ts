@@ -0,0 +1,137 @@
+/**
+ * FastJudge Dependency Scanner
+ * Finds the local files a source file depends on, so that editing a header
+ * or helper module invalidates the cached build:
+ *
+ *   C/C++:      #include "mylib.h"              (quoted includes only)
+ *   JS/TS:      import x from './util'  /  require('./util')
+ *   Python:     import util  /  from pkg.mod import x  /  from . import x
+ *
+ * Dependencies are followed transitively. Only existing files inside the
+ * root directory are reported; system headers and packages are ignored.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const C_FAMILY_EXTENSIONS = ['.c', '.cc', '.cpp', '.cxx', '.c++', '.h', '.hh', '.hpp', '.hxx', '.h++', '.inl', '.tpp'];
+const SCRIPT_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts', '.mts', '.cts', '.jsx', '.tsx'];
+const PYTHON_EXTENSIONS = ['.py'];
+
+const C_INCLUDE = /^\s*#\s*include\s*"([^"]+)"/gm;
+const SCRIPT_IMPORT = /(?:\bimport\s+(?:[^'"]*?\bfrom\s+)?|\bexport\s+[^'"]*?\bfrom\s+|\brequire\s*\(\s*)['"](\.{1,2}\/[^'"]*)['"]/g;
+const PYTHON_IMPORT = /^[ \t]*import[ \t]+([\w.]+(?:[ \t]*,[ \t]*[\w.]+)*)/gm;
+const PYTHON_FROM_IMPORT = /^[ \t]*from[ \t]+(\.*)([\w.]*)[ \t]+import[ \t]+([\w \t,*()]+)/gm;
+
+/**
+ * Find the local dependencies of one or more source files (excluding the files themselves)
+ * @returns Absolute paths in discovery order
+ */
+export async function findLocalDependencies(sourcePaths: string[], rootDir?: string): Promise<string[]> {
+    const roots = sourcePaths.map(p => path.resolve(p));
+    const seen = new Set(roots);
+    const pending = [...roots];
+    const dependencies: string[] = [];
+
+    while (pending.length > 0) {
+        const filePath = pending.shift()!;
+
+        let content: string;
+        try {
+            content = await fs.readFile(filePath, 'utf-8');
+        } catch {
+            continue;
+        }
+
+        for (const candidates of getReferencedFiles(filePath, content)) {
+            const resolved = await findExisting(candidates);
+            if (!resolved || seen.has(resolved) || !isInside(resolved, rootDir)) {
+                continue;
+            }
+            seen.add(resolved);
+            dependencies.push(resolved);
+            pending.push(resolved);
+        }
+    }
+
+    return dependencies;
+}
+
+/**
+ * Candidate paths of each file referenced by a source file, in lookup order
+ */
+function getReferencedFiles(filePath: string, content: string): string[][] {
+    const ext = path.extname(filePath).toLowerCase();
+    const dir = path.dirname(filePath);
+
+    if (C_FAMILY_EXTENSIONS.includes(ext)) {
+        return [...content.matchAll(C_INCLUDE)].map(m => [path.resolve(dir, m[1])]);
+    }
+
+    if (SCRIPT_EXTENSIONS.includes(ext)) {
+        return [...content.matchAll(SCRIPT_IMPORT)].map((m) => {
+            const target = path.resolve(dir, m[1]);
+            return [
+                target,
+                ...SCRIPT_EXTENSIONS.map(e => target + e),
+                ...SCRIPT_EXTENSIONS.map(e => path.join(target, `index${e}`)),
+            ];
+        });
+    }
+
+    if (PYTHON_EXTENSIONS.includes(ext)) {
+        const referenced: string[][] = [];
+
+        for (const m of content.matchAll(PYTHON_IMPORT)) {
+            for (const name of m[1].split(',')) {
+                referenced.push(pythonModuleCandidates(dir, name.trim()));
+            }
+        }
+
+        for (const m of content.matchAll(PYTHON_FROM_IMPORT)) {
+            const [, dots, moduleName, names] = m;
+            // "from . import a" and "from .. import a" resolve relative to the package directory
+            const base = dots.length > 0 ? path.resolve(dir, ...Array(dots.length - 1).fill('..')) : dir;
+            if (moduleName) {
+                referenced.push(pythonModuleCandidates(base, moduleName));
+            }
+            // "from pkg import mod" may import submodules
+            for (const name of names.replace(/[()]/g, '').split(',')) {
+                const imported = name.trim().split(/\s+/)[0];
+                if (imported && imported !== '*') {
+                    referenced.push(pythonModuleCandidates(base, moduleName ? `${moduleName}.${imported}` : imported));
+                }
+            }
+        }
+
+        return referenced;
+    }
+
+    return [];
+}
+
+function pythonModuleCandidates(baseDir: string, moduleName: string): string[] {
+    const modulePath = path.join(baseDir, ...moduleName.split('.'));
+    return [`${modulePath}.py`, path.join(modulePath, '__init__.py')];
+}
+
+async function findExisting(candidates: string[]): Promise<string | undefined> {
+    for (const candidate of candidates) {
+        try {
+            if ((await fs.stat(candidate)).isFile()) {
+                return candidate;
+            }
+        } catch {
+            // Try the next candidate
+        }
+    }
+    return undefined;
+}
+
+function isInside(filePath: string, rootDir?: string): boolean {
+    if (!rootDir) {
+        return true;
+    }
+    const relative = path.relative(rootDir, filePath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
@@ -0,0 +1,129 @@
+/**
+ * Compiler Diagnostic Parser
+ * Extracts errors and warnings with their source locations from compiler output.
+ *
+ * gcc / clang:
+ *   main.cpp:12:5: error: 'x' was not declared in this scope
+ *   main.cpp:3:10: fatal error: lib.h: No such file or directory
+ *
+ * javac (the column comes from the caret line):
+ *   Main.java:7: error: cannot find symbol
+ *           int y = x;
+ *                   ^
+ *
+ * rustc:
+ *   error[E0425]: cannot find value `x` in this scope
+ *    --> main.rs:3:13
+ *
+ * Custom languages can supply a regular expression with the named groups
+ * file, line, column (optional), severity (optional) and message.
+ */
+
+import * as path from 'path';
+import { CompilerDiagnostic, CompilerDiagnosticSeverity } from '../types';
+
+const GCC_DIAGNOSTIC = /^(.+?):(\d+):(?:(\d+):)?\s*(fatal error|error|warning|note|remark)(?:\s*\[[^\]]*\])?:\s*(.*)$/;
+const RUST_HEADER = /^(error|warning)(?:\[(\w+)\])?:\s*(.*)$/;
+const RUST_LOCATION = /^\s*-->\s*(.+?):(\d+):(\d+)$/;
+const CARET_LINE = /^(\s*)\^/;
+
+/** Lines after a javac diagnostic that may hold its caret */
+const CARET_LOOKAHEAD = 2;
+
+/**
+ * Parse compiler output into diagnostics.
+ * Relative paths are resolved against the directory the compiler ran in.
+ */
+export function parseCompilerDiagnostics(output: string, workingDir: string, pattern?: string): CompilerDiagnostic[] {
+    const lines = output.replace(/\r\n/g, '\n').split('\n');
+    const diagnostics = pattern
+        ? parseWithPattern(lines, pattern)
+        : parseBuiltinFormats(lines);
+
+    return diagnostics.map(d => ({ ...d, file: path.resolve(workingDir, d.file) }));
+}
+
+function parseBuiltinFormats(lines: string[]): CompilerDiagnostic[] {
+    const diagnostics: CompilerDiagnostic[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const gcc = GCC_DIAGNOSTIC.exec(lines[i]);
+        if (gcc) {
+            const [, file, line, column, kind, message] = gcc;
+            diagnostics.push({
+                file,
+                line: Number(line),
+                column: column ? Number(column) : findCaretColumn(lines, i),
+                severity: toSeverity(kind),
+                message,
+            });
+            continue;
+        }
+
+        const rust = RUST_HEADER.exec(lines[i]);
+        const location = rust && i + 1 < lines.length ? RUST_LOCATION.exec(lines[i + 1]) : null;
+        if (rust && location) {
+            const [, kind, code, message] = rust;
+            diagnostics.push({
+                file: location[1],
+                line: Number(location[2]),
+                column: Number(location[3]),
+                severity: toSeverity(kind),
+                message,
+                code,
+            });
+            i++;
+        }
+    }
+
+    return diagnostics;
+}
+
+function parseWithPattern(lines: string[], pattern: string): CompilerDiagnostic[] {
+    let regex: RegExp;
+    try {
+        regex = new RegExp(pattern);
+    } catch {
+        return [];
+    }
+
+    const diagnostics: CompilerDiagnostic[] = [];
+    for (const line of lines) {
+        const groups = regex.exec(line)?.groups;
+        if (!groups?.file || !groups.line) {
+            continue;
+        }
+        diagnostics.push({
+            file: groups.file,
+            line: Number(groups.line),
+            column: groups.column ? Number(groups.column) : undefined,
+            severity: toSeverity(groups.severity ?? 'error'),
+            message: groups.message ?? line,
+        });
+    }
+    return diagnostics;
+}
+
+/**
+ * Column of the caret below a javac diagnostic's source line (1-based)
+ */
+function findCaretColumn(lines: string[], index: number): number | undefined {
+    for (let i = index + 1; i <= index + CARET_LOOKAHEAD + 1 && i < lines.length; i++) {
+        const caret = CARET_LINE.exec(lines[i]);
+        if (caret) {
+            return caret[1].length + 1;
+        }
+    }
+    return undefined;
+}
+
+function toSeverity(kind: string): CompilerDiagnosticSeverity {
+    const normalized = kind.toLowerCase();
+    if (normalized.includes('error')) {
+        return 'error';
+    }
+    if (normalized.startsWith('warn')) {
+        return 'warning';
+    }
+    return 'info';
+}
@@ -5,16 +5,50 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { spawn, ChildProcess } from 'child_process';
+import { ChildProcess } from 'child_process';
+import { pipeline } from 'stream';
 import { performance } from 'perf_hooks';
-import { ExecutionResult } from '../types';
+import {
+    ExecutionResult,
+    ExecuteOptions,
+    CompiledProgram,
+    InteractiveExecutionResult,
+    TimeLimitMode,
+    SandboxOptions
+} from '../types';
 import { languageRegistry } from './language-registry';
+import { ProcessMonitor, ProcessMonitorOptions } from './process-monitor';
+import { createSandboxedCommand, DEFAULT_SANDBOX_OPTIONS, SandboxedCommand } from './sandbox';
+import { killOrphans, killProcessTree, spawnProcessTree } from './process-tree';
+import { OutputCapture } from './output-capture';
 
 /** Default time limit in milliseconds */
 const DEFAULT_TIME_LIMIT_MS = 2000;
 
+/** Default output limit in megabytes */
+const DEFAULT_OUTPUT_LIMIT_MB = 64;
+
+/** Maximum interaction transcript size kept in memory (characters) */
+const TRANSCRIPT_LIMIT = 64 * 1024;
+
+/** In CPU time mode, processes are still killed after this multiple of the time limit in wall-clock time */
+const IDLENESS_LIMIT_FACTOR = 3;
+
+/** A timed-out process that spent less than this fraction of the elapsed time on the CPU was idle */
+const IDLE_CPU_RATIO = 0.25;
+
+/**
+ * AddressSanitizer options for sanitizer builds (ignored by other programs).
+ * Leak checks are off: competitive solutions rarely free memory before exiting.
+ */
+const DEFAULT_ASAN_OPTIONS = 'detect_leaks=0';
+
 export class ExecutorService {
     private timeLimitMs: number;
+    private memoryLimitMb = 0;  // 0 = no limit
+    private outputLimitMb = DEFAULT_OUTPUT_LIMIT_MB;  // 0 = no limit
+    private timeLimitMode: TimeLimitMode = 'wall';
+    private sandbox: SandboxOptions = DEFAULT_SANDBOX_OPTIONS;
 
     constructor(timeLimitMs?: number) {
         this.timeLimitMs = timeLimitMs || DEFAULT_TIME_LIMIT_MS;
@@ -28,9 +62,10 @@ export class ExecutorService {
         outputDir: string,
         input: string,
         language?: string,
-        signal?: AbortSignal
+        signal?: AbortSignal,
+        options: ExecuteOptions = {}
     ): Promise<ExecutionResult> {
-        return this.runProcess(sourcePath, outputDir, input, language, signal);
+        return this.runProcess(sourcePath, outputDir, input, language, signal, options);
     }
 
     /**
@@ -41,9 +76,26 @@ export class ExecutorService {
         outputDir: string,
         inputPath: string,
         language?: string,
-        signal?: AbortSignal
+        signal?: AbortSignal,
+        options: ExecuteOptions = {}
     ): Promise<ExecutionResult> {
-        return this.runProcessWithStream(sourcePath, outputDir, inputPath, language, signal);
+        return this.runProcessWithStream(sourcePath, outputDir, inputPath, language, signal, options);
+    }
+
+    /**
+     * Execute program against an interactor, cross-wiring their stdin/stdout.
+     * The time limit applies to the pair: both processes are killed on timeout.
+     */
+    async executeInteractive(
+        sourcePath: string,
+        outputDir: string,
+        interactor: CompiledProgram,
+        interactorArgs: string[],
+        language?: string,
+        signal?: AbortSignal,
+        options: ExecuteOptions = {}
+    ): Promise<InteractiveExecutionResult> {
+        return this.runInteractive(sourcePath, outputDir, interactor, interactorArgs, language, signal, options);
     }
 
     /**
@@ -54,7 +106,8 @@ export class ExecutorService {
         outputDir: string,
         inputPath: string,
         language?: string,
-        signal?: AbortSignal
+        signal?: AbortSignal,
+        options: ExecuteOptions = {}
     ): Promise<ExecutionResult> {
         return new Promise((resolve) => {
             // Case 2: Already aborted before process spawns
@@ -74,70 +127,127 @@ export class ExecutorService {
             const startTime = performance.now();
             let executionTimeMs = 0;
             let timedOut = false;
+            let idle = false;
             let exitCode = -1;
             let exitSignal: NodeJS.Signals | null = null;
+            let orphanedProcesses = 0;
 
             // Build command based on language
-            const { command, args } = this.buildCommand(sourcePath, outputDir, language);
+            const { command, args } = this.buildCommand(sourcePath, outputDir, language, options.args, options.profile);
+            const wallTimeLimitMs = this.getWallTimeLimit(options);
+
+            let launch: SandboxedCommand;
+            try {
+                launch = this.prepareLaunch(command, args, path.dirname(sourcePath));
+            } catch (err) {
+                resolve(launchFailure(err as Error, startTime));
+                return;
+            }
 
-            const proc = spawn(command, args, {
-                cwd: path.dirname(sourcePath),
+            // Own process group, so the program is killed together with everything it started
+            const proc = spawnProcessTree(launch.command, launch.args, {
+                cwd: launch.cwd,
+                env: getProgramEnv(),
                 shell: false,
                 stdio: ['pipe', 'pipe', 'pipe'],
-                timeout: this.timeLimitMs,
-                signal,
             });
 
-            let stdout = '';
-            let stderr = '';
+            let killed = false;
+            const kill = () => {
+                killed = true;
+                killProcessTree(proc);
+            };
+            signal?.addEventListener('abort', kill);
+
+            // Track resource usage and enforce the memory and CPU time limits
+            const monitor = this.startMonitor(proc, options, {
+                onMemoryLimitExceeded: kill,
+                onCpuTimeLimitExceeded: () => {
+                    timedOut = true;
+                    kill();
+                },
+            });
 
-            // Capture stdout
-            proc.stdout?.on('data', (data) => {
-                stdout += data.toString();
+            const stdout = this.createCapture(options.stdoutPath);
+            const stderr = this.createCapture(options.stderrPath);
+            let outputLimitExceeded = false;
+
+            // Capture stdout (the program is stopped once it exceeds the output limit)
+            proc.stdout?.on('data', (data: Buffer) => {
+                if (!stdout.write(data) && !outputLimitExceeded) {
+                    outputLimitExceeded = true;
+                    kill();
+                }
             });
 
-            // Capture stderr
-            proc.stderr?.on('data', (data) => {
-                stderr += data.toString();
+            // Capture stderr (output beyond the limit is discarded)
+            proc.stderr?.on('data', (data: Buffer) => {
+                stderr.write(data);
             });
 
             // Set up time limit
             const timer = setTimeout(() => {
                 timedOut = true;
-                this.killProcess(proc);
-            }, this.timeLimitMs);
+                idle = this.isIdle(monitor, wallTimeLimitMs);
+                kill();
+            }, wallTimeLimitMs);
 
             // Handle process exit (stop timer here)
             proc.on('exit', (code, signal) => {
+                monitor?.stop();
                 executionTimeMs = performance.now() - startTime;
                 exitCode = code ?? -1;
                 exitSignal = signal;
+                // Background processes would keep running and hold the output pipes open
+                if (!killed) {
+                    orphanedProcesses = killOrphans(proc);
+                }
             });
 
             // Handle stream close (resolve here to ensure we have all output)
             proc.on('close', () => {
                 clearTimeout(timer);
+                signal?.removeEventListener('abort', kill);
+                launch.dispose();
 
                 // Fallback if exit didn't fire (rare but possible with force kill)
                 if (executionTimeMs === 0) {
                     executionTimeMs = performance.now() - startTime;
                 }
 
+                monitor?.stop();
+
                 // Case 1: Process may have been killed by abort signal
-                resolve({
-                    stdout,
-                    stderr,
+                // (resolve once the output files are complete)
+                Promise.all([stdout.close(), stderr.close()]).then(() => resolve({
+                    stdout: stdout.getText(),
+                    stderr: stderr.getText(),
                     exitCode,
                     signal: exitSignal,
                     executionTimeMs,
+                    cpuTimeMs: monitor?.getCpuTimeMs(),
                     timedOut,
+                    idlenessLimitExceeded: idle,
                     aborted: !!signal?.aborted,
-                });
+                    memoryUsageKb: monitor?.getPeakMemoryKb(),
+                    memoryLimitExceeded: monitor?.isMemoryLimitExceeded(),
+                    orphanedProcesses: orphanedProcesses || undefined,
+                    outputLimitExceeded,
+                    stdoutPath: options.stdoutPath,
+                    stderrPath: options.stderrPath,
+                    outputTruncated: stdout.isTruncated(),
+                    stderrTruncated: stderr.isTruncated(),
+                }));
             });
 
             // Handle spawn errors
             proc.on('error', (err) => {
                 clearTimeout(timer);
+                signal?.removeEventListener('abort', kill);
+                launch.dispose();
+                monitor?.stop();
+                stdout.close();
+                stderr.close();
                 resolve({
                     stdout: '',
                     stderr: signal?.aborted ? '' : `Execution error: ${err.message}`,
@@ -149,12 +259,12 @@ export class ExecutorService {
                 });
             });
 
-            // Stream input from file instead of loading to memory
-            const inputStream = fs.createReadStream(inputPath);
-            inputStream.pipe(proc.stdin!);
-            inputStream.on('error', () => {
-                proc.stdin?.end();
-            });
+            // Stream input from file instead of loading to memory. pipeline() only reads
+            // as fast as the program consumes its input, and closes the file if the
+            // program exits without reading all of it (EPIPE)
+            if (proc.stdin) {
+                pipeline(fs.createReadStream(inputPath), proc.stdin, () => { });
+            }
         });
     }
 
@@ -166,7 +276,8 @@ export class ExecutorService {
         outputDir: string,
         input: string,
         language?: string,
-        signal?: AbortSignal
+        signal?: AbortSignal,
+        options: ExecuteOptions = {}
     ): Promise<ExecutionResult> {
         return new Promise((resolve) => {
             // Case 2: Already aborted before process spawns
@@ -186,69 +297,126 @@ export class ExecutorService {
             const startTime = performance.now();
             let executionTimeMs = 0;
             let timedOut = false;
+            let idle = false;
             let exitCode = -1;
             let exitSignal: NodeJS.Signals | null = null;
+            let orphanedProcesses = 0;
 
             // Build command based on language
-            const { command, args } = this.buildCommand(sourcePath, outputDir, language);
+            const { command, args } = this.buildCommand(sourcePath, outputDir, language, options.args, options.profile);
+            const wallTimeLimitMs = this.getWallTimeLimit(options);
+
+            let launch: SandboxedCommand;
+            try {
+                launch = this.prepareLaunch(command, args, path.dirname(sourcePath));
+            } catch (err) {
+                resolve(launchFailure(err as Error, startTime));
+                return;
+            }
 
-            const proc = spawn(command, args, {
-                cwd: path.dirname(sourcePath),
+            // Own process group, so the program is killed together with everything it started
+            const proc = spawnProcessTree(launch.command, launch.args, {
+                cwd: launch.cwd,
+                env: getProgramEnv(),
                 shell: false,
                 stdio: ['pipe', 'pipe', 'pipe'],
-                timeout: this.timeLimitMs,
-                signal, // Pass AbortSignal to spawn
             });
 
-            let stdout = '';
-            let stderr = '';
+            let killed = false;
+            const kill = () => {
+                killed = true;
+                killProcessTree(proc);
+            };
+            signal?.addEventListener('abort', kill);
+
+            // Track resource usage and enforce the memory and CPU time limits
+            const monitor = this.startMonitor(proc, options, {
+                onMemoryLimitExceeded: kill,
+                onCpuTimeLimitExceeded: () => {
+                    timedOut = true;
+                    kill();
+                },
+            });
+
+            const stdout = this.createCapture(options.stdoutPath);
+            const stderr = this.createCapture(options.stderrPath);
+            let outputLimitExceeded = false;
 
-            // Capture stdout
-            proc.stdout?.on('data', (data) => {
-                stdout += data.toString();
+            // Capture stdout (the program is stopped once it exceeds the output limit)
+            proc.stdout?.on('data', (data: Buffer) => {
+                if (!stdout.write(data) && !outputLimitExceeded) {
+                    outputLimitExceeded = true;
+                    kill();
+                }
             });
 
-            // Capture stderr
-            proc.stderr?.on('data', (data) => {
-                stderr += data.toString();
+            // Capture stderr (output beyond the limit is discarded)
+            proc.stderr?.on('data', (data: Buffer) => {
+                stderr.write(data);
             });
 
             // Set up time limit
             const timer = setTimeout(() => {
                 timedOut = true;
-                this.killProcess(proc);
-            }, this.timeLimitMs);
+                idle = this.isIdle(monitor, wallTimeLimitMs);
+                kill();
+            }, wallTimeLimitMs);
 
             // Handle process exit (stop timer here)
             proc.on('exit', (code, signal) => {
+                monitor?.stop();
                 executionTimeMs = performance.now() - startTime;
                 exitCode = code ?? -1;
                 exitSignal = signal;
+                // Background processes would keep running and hold the output pipes open
+                if (!killed) {
+                    orphanedProcesses = killOrphans(proc);
+                }
             });
 
             // Handle stream close (resolve here)
             proc.on('close', () => {
                 clearTimeout(timer);
+                signal?.removeEventListener('abort', kill);
+                launch.dispose();
 
                 if (executionTimeMs === 0) {
                     executionTimeMs = performance.now() - startTime;
                 }
 
+                monitor?.stop();
+
                 // Case 1: Process may have been killed by abort signal
-                resolve({
-                    stdout,
-                    stderr,
+                // (resolve once the output files are complete)
+                Promise.all([stdout.close(), stderr.close()]).then(() => resolve({
+                    stdout: stdout.getText(),
+                    stderr: stderr.getText(),
                     exitCode,
                     signal: exitSignal,
                     executionTimeMs,
+                    cpuTimeMs: monitor?.getCpuTimeMs(),
                     timedOut,
+                    idlenessLimitExceeded: idle,
                     aborted: !!signal?.aborted,
-                });
+                    memoryUsageKb: monitor?.getPeakMemoryKb(),
+                    memoryLimitExceeded: monitor?.isMemoryLimitExceeded(),
+                    orphanedProcesses: orphanedProcesses || undefined,
+                    outputLimitExceeded,
+                    stdoutPath: options.stdoutPath,
+                    stderrPath: options.stderrPath,
+                    outputTruncated: stdout.isTruncated(),
+                    stderrTruncated: stderr.isTruncated(),
+                }));
             });
 
             // Handle spawn errors
             proc.on('error', (err) => {
                 clearTimeout(timer);
+                signal?.removeEventListener('abort', kill);
+                launch.dispose();
+                monitor?.stop();
+                stdout.close();
+                stderr.close();
                 resolve({
                     stdout: '',
                     stderr: signal?.aborted ? '' : `Execution error: ${err.message}`,
@@ -262,54 +430,348 @@ export class ExecutorService {
 
             // Write input to stdin
             if (proc.stdin) {
+                // Programs may exit without reading their input (EPIPE)
+                proc.stdin.on('error', () => { });
                 proc.stdin.write(input);
                 proc.stdin.end();
             }
         });
     }
 
+    /**
+     * Spawn solution and interactor with solution.stdout -> interactor.stdin
+     * and interactor.stdout -> solution.stdin, recording the transcript
+     */
+    private runInteractive(
+        sourcePath: string,
+        outputDir: string,
+        interactor: CompiledProgram,
+        interactorArgs: string[],
+        language?: string,
+        signal?: AbortSignal,
+        options: ExecuteOptions = {}
+    ): Promise<InteractiveExecutionResult> {
+        return new Promise((resolve) => {
+            const emptyResult = (): ExecutionResult => ({
+                stdout: '',
+                stderr: '',
+                exitCode: -1,
+                signal: null,
+                executionTimeMs: 0,
+                timedOut: false,
+                aborted: !!signal?.aborted,
+            });
+
+            // Already aborted before processes spawn
+            if (signal?.aborted) {
+                resolve({
+                    solution: emptyResult(),
+                    interactor: emptyResult(),
+                    transcript: '',
+                    transcriptTruncated: false,
+                    executionTimeMs: 0,
+                    timedOut: false,
+                    aborted: true,
+                });
+                return;
+            }
+
+            const startTime = performance.now();
+            const wallTimeLimitMs = this.getWallTimeLimit(options);
+            let timedOut = false;
+            let idle = false;
+            let transcript = '';
+            let transcriptTruncated = false;
+            const pendingLines: Record<'>' | '<', string> = { '>': '', '<': '' };
+
+            // Record complete lines with their direction marker
+            const record = (direction: '>' | '<', text: string, flush = false) => {
+                const lines = (pendingLines[direction] + text).split('\n');
+                pendingLines[direction] = flush ? '' : lines.pop()!;
+                for (const line of lines) {
+                    if (flush && line === '') {
+                        continue;
+                    }
+                    if (transcript.length + line.length > TRANSCRIPT_LIMIT) {
+                        transcriptTruncated = true;
+                        return;
+                    }
+                    transcript += `${direction} ${line}\n`;
+                }
+            };
+
+            const solutionCmd = this.buildCommand(sourcePath, outputDir, language, [], options.profile);
+            const interactorCmd = this.buildCommand(
+                interactor.sourcePath,
+                interactor.outputDir,
+                interactor.language,
+                interactorArgs
+            );
+
+            // Only the solution runs in the sandbox; the interactor is trusted
+            let launch: SandboxedCommand;
+            try {
+                launch = this.prepareLaunch(solutionCmd.command, solutionCmd.args, path.dirname(sourcePath));
+            } catch (err) {
+                resolve({
+                    solution: launchFailure(err as Error, startTime),
+                    interactor: emptyResult(),
+                    transcript: '',
+                    transcriptTruncated: false,
+                    executionTimeMs: 0,
+                    timedOut: false,
+                    aborted: false,
+                });
+                return;
+            }
+
+            const solution = spawnProcessTree(launch.command, launch.args, {
+                cwd: launch.cwd,
+                env: getProgramEnv(),
+                shell: false,
+                stdio: ['pipe', 'pipe', 'pipe'],
+            });
+            const interactorProc = spawnProcessTree(interactorCmd.command, interactorCmd.args, {
+                cwd: path.dirname(interactor.sourcePath),
+                shell: false,
+                stdio: ['pipe', 'pipe', 'pipe'],
+            });
+
+            const results = { solution: emptyResult(), interactor: emptyResult() };
+            let pending = 2;
+
+            const killed = new Set<ChildProcess>();
+            const kill = (...procs: ChildProcess[]) => {
+                for (const proc of procs) {
+                    killed.add(proc);
+                    killProcessTree(proc);
+                }
+            };
+            const killBoth = () => kill(solution, interactorProc);
+            signal?.addEventListener('abort', killBoth);
+
+            // Memory and CPU time limits apply to the solution only
+            const monitor = this.startMonitor(solution, options, {
+                onMemoryLimitExceeded: () => kill(solution),
+                onCpuTimeLimitExceeded: () => {
+                    timedOut = true;
+                    killBoth();
+                },
+            });
+
+            // Either side may exit while the other is still writing (EPIPE)
+            solution.stdin?.on('error', () => { });
+            interactorProc.stdin?.on('error', () => { });
+
+            // The solution's output is kept in memory (it is short in interactive problems) up to the output limit
+            const solutionStdout = this.createCapture();
+            const solutionStderr = this.createCapture();
+
+            solution.stdout?.on('data', (data: Buffer) => {
+                if (!solutionStdout.write(data) && !results.solution.outputLimitExceeded) {
+                    results.solution.outputLimitExceeded = true;
+                    killBoth();
+                }
+                record('>', data.toString());
+                interactorProc.stdin?.write(data);
+            });
+            // The interactor's output is streamed to files when paths are given, keeping only a preview
+            const interactorStdout = this.createCapture(options.interactorStdoutPath);
+            const interactorStderr = this.createCapture(options.interactorStderrPath);
+
+            interactorProc.stdout?.on('data', (data: Buffer) => {
+                interactorStdout.write(data);
+                record('<', data.toString());
+                solution.stdin?.write(data);
+            });
+            solution.stderr?.on('data', (data: Buffer) => {
+                solutionStderr.write(data);
+            });
+            interactorProc.stderr?.on('data', (data: Buffer) => {
+                interactorStderr.write(data);
+            });
+
+            // Set up time limit for both processes
+            const timer = setTimeout(() => {
+                timedOut = true;
+                idle = this.isIdle(monitor, wallTimeLimitMs);
+                killBoth();
+            }, wallTimeLimitMs);
+
+            const finish = () => {
+                pending--;
+                if (pending > 0) {
+                    return;
+                }
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', killBoth);
+                launch.dispose();
+                monitor?.stop();
+                record('>', '', true);
+                record('<', '', true);
+
+                results.solution.stdout = solutionStdout.getText();
+                results.solution.stderr = solutionStderr.getText() + results.solution.stderr;
+                results.solution.outputTruncated = solutionStdout.isTruncated();
+                results.solution.memoryUsageKb = monitor?.getPeakMemoryKb();
+                results.solution.memoryLimitExceeded = monitor?.isMemoryLimitExceeded();
+                results.solution.cpuTimeMs = monitor?.getCpuTimeMs();
+                results.solution.idlenessLimitExceeded = idle;
+
+                results.interactor.stdout = interactorStdout.getText();
+                results.interactor.stderr = interactorStderr.getText() + results.interactor.stderr;
+                results.interactor.stdoutPath = options.interactorStdoutPath;
+                results.interactor.stderrPath = options.interactorStderrPath;
+                results.interactor.outputTruncated = interactorStdout.isTruncated();
+                results.interactor.stderrTruncated = interactorStderr.isTruncated();
+
+                results.solution.timedOut = timedOut;
+                results.interactor.timedOut = timedOut;
+                results.solution.aborted = !!signal?.aborted;
+                results.interactor.aborted = !!signal?.aborted;
+
+                // Resolve once the interactor's output files are complete
+                Promise.all([interactorStdout.close(), interactorStderr.close()]).then(() => resolve({
+                    ...results,
+                    transcript,
+                    transcriptTruncated,
+                    executionTimeMs: results.solution.executionTimeMs || performance.now() - startTime,
+                    timedOut,
+                    aborted: !!signal?.aborted,
+                }));
+            };
+
+            const track = (proc: ChildProcess, result: ExecutionResult, peer: ChildProcess) => {
+                let finished = false;
+                const done = () => {
+                    if (!finished) {
+                        finished = true;
+                        finish();
+                    }
+                };
+
+                proc.on('exit', (code, exitSignal) => {
+                    result.executionTimeMs = performance.now() - startTime;
+                    result.exitCode = code ?? -1;
+                    result.signal = exitSignal;
+                    if (!killed.has(proc)) {
+                        result.orphanedProcesses = killOrphans(proc) || undefined;
+                    }
+                    // The peer will not receive any more input
+                    peer.stdin?.end();
+                });
+                proc.on('close', done);
+                proc.on('error', (err) => {
+                    if (!signal?.aborted) {
+                        result.stderr += `Execution error: ${err.message}`;
+                    }
+                    result.executionTimeMs = performance.now() - startTime;
+                    // Without one side the interaction cannot continue
+                    kill(peer);
+                    done();
+                });
+            };
+
+            track(solution, results.solution, interactorProc);
+            track(interactorProc, results.interactor, solution);
+        });
+    }
+
+    /**
+     * Command, arguments and working directory for running a program,
+     * inside the sandbox when it is enabled
+     * @throws if the sandbox is enabled but not supported on this system
+     */
+    private prepareLaunch(command: string, args: string[], cwd: string): SandboxedCommand {
+        if (!this.sandbox.enabled) {
+            return { command, args, cwd, dispose: () => undefined };
+        }
+        return createSandboxedCommand(command, args, this.sandbox);
+    }
+
     private buildCommand(
         sourcePath: string,
         outputDir: string,
-        language?: string
+        language?: string,
+        extraArgs: string[] = [],
+        profile?: string
     ): { command: string; args: string[] } {
         // If no language provided, try to detect from extension
         const provider = language ? languageRegistry.getProvider(language) : languageRegistry.detectProvider(sourcePath);
 
         if (provider) {
-            return provider.getRunCommand(sourcePath, outputDir);
+            const { command, args } = provider.getRunCommand(sourcePath, outputDir, profile);
+            return { command, args: [...args, ...extraArgs] };
         }
 
         // Fallback for executable without extension
         return {
             command: sourcePath,
-            args: [],
+            args: extraArgs,
         };
     }
 
     /**
-     * Kill process and all its children
+     * Output capture limited to the output limit, streamed to a file if a path is given
      */
-    private killProcess(proc: ChildProcess): void {
-        try {
-            if (process.platform === 'win32') {
-                // On Windows, use taskkill to kill process tree
-                spawn('taskkill', ['/pid', String(proc.pid), '/f', '/t'], { shell: false });
-            } else {
-                // On Unix, kill process group
-                process.kill(-proc.pid!, 'SIGKILL');
-            }
-        } catch {
-            // Process may have already exited
-            try {
-                proc.kill('SIGKILL');
-            } catch {
-                // Ignore
-            }
+    private createCapture(filePath?: string): OutputCapture {
+        const limitBytes = this.outputLimitMb > 0 ? this.outputLimitMb * 1024 * 1024 : Infinity;
+        return new OutputCapture(limitBytes, filePath);
+    }
+
+    /**
+     * Start sampling resource usage of a spawned process
+     * Returns undefined if the process failed to spawn
+     */
+    private startMonitor(
+        proc: ChildProcess,
+        options: ExecuteOptions,
+        callbacks: Pick<ProcessMonitorOptions, 'onMemoryLimitExceeded' | 'onCpuTimeLimitExceeded'>
+    ): ProcessMonitor | undefined {
+        if (!proc.pid) {
+            return undefined;
         }
+
+        const limitMb = options.memoryLimitMb ?? this.memoryLimitMb;
+        const monitor = new ProcessMonitor(proc.pid, {
+            ...callbacks,
+            memoryLimitKb: limitMb > 0 ? limitMb * 1024 : undefined,
+            cpuTimeLimitMs: this.isCpuTimeLimited() ? this.getRunTimeLimit(options) : undefined,
+        });
+        monitor.start();
+        return monitor;
     }
 
+    /**
+     * Whether the time limit is enforced on CPU time (falls back to wall-clock
+     * time where CPU time cannot be measured)
+     */
+    private isCpuTimeLimited(): boolean {
+        return this.timeLimitMode === 'cpu' && ProcessMonitor.isSupported();
+    }
 
+    /**
+     * Time limit of one run, scaled by its time limit factor
+     */
+    private getRunTimeLimit(options: ExecuteOptions): number {
+        return this.timeLimitMs * (options.timeLimitFactor ?? 1);
+    }
+
+    /**
+     * Wall-clock limit after which the process is killed regardless of CPU usage
+     */
+    private getWallTimeLimit(options: ExecuteOptions): number {
+        const timeLimitMs = this.getRunTimeLimit(options);
+        return this.isCpuTimeLimited() ? timeLimitMs * IDLENESS_LIMIT_FACTOR : timeLimitMs;
+    }
+
+    /**
+     * Whether a process that hit the wall-clock limit spent most of it idle
+     */
+    private isIdle(monitor: ProcessMonitor | undefined, elapsedMs: number): boolean {
+        const cpuTimeMs = monitor?.getCpuTimeMs();
+        return cpuTimeMs !== undefined && cpuTimeMs < elapsedMs * IDLE_CPU_RATIO;
+    }
 
     /**
      * Set time limit
@@ -324,6 +786,84 @@ export class ExecutorService {
     getTimeLimit(): number {
         return this.timeLimitMs;
     }
+
+    /**
+     * Set which clock the time limit applies to
+     */
+    setTimeLimitMode(mode: TimeLimitMode): void {
+        this.timeLimitMode = mode;
+    }
+
+    /**
+     * Get which clock the time limit applies to
+     */
+    getTimeLimitMode(): TimeLimitMode {
+        return this.timeLimitMode;
+    }
+
+    /**
+     * Set default memory limit (0 = no limit)
+     */
+    setMemoryLimit(mb: number): void {
+        this.memoryLimitMb = mb;
+    }
+
+    /**
+     * Get default memory limit
+     */
+    getMemoryLimit(): number {
+        return this.memoryLimitMb;
+    }
+
+    /**
+     * Set output limit (0 = no limit)
+     */
+    setOutputLimit(mb: number): void {
+        this.outputLimitMb = mb;
+    }
+
+    /**
+     * Get output limit
+     */
+    getOutputLimit(): number {
+        return this.outputLimitMb;
+    }
+
+    /**
+     * Set sandbox restrictions for the programs run by this executor
+     */
+    setSandbox(options: SandboxOptions): void {
+        this.sandbox = options;
+    }
+
+    /**
+     * Get sandbox restrictions
+     */
+    getSandbox(): SandboxOptions {
+        return this.sandbox;
+    }
+}
+
+/**
+ * Environment for judged programs: the extension's environment plus sanitizer defaults
+ */
+function getProgramEnv(): NodeJS.ProcessEnv {
+    return { ...process.env, ASAN_OPTIONS: process.env.ASAN_OPTIONS ?? DEFAULT_ASAN_OPTIONS };
+}
+
+/**
+ * Result of a program that could not be started
+ */
+function launchFailure(err: Error, startTime: number): ExecutionResult {
+    return {
+        stdout: '',
+        stderr: `Execution error: ${err.message}`,
+        exitCode: -1,
+        signal: null,
+        executionTimeMs: performance.now() - startTime,
+        timedOut: false,
+        aborted: false,
+    };
 }
 
 // Export singleton instance
@@ -3,24 +3,55 @@
  * Orchestrates compilation, execution, and verdict comparison
  */
 
+import * as path from 'path';
 import {
     Verdict,
     JudgeResult,
     TestCaseWithData,
     CompileResult,
-    ComparisonMode
+    CompileOptions,
+    ComparisonMode,
+    FloatTolerance,
+    CompiledProgram,
+    JudgeOptions,
+    LinkedPrograms,
+    ExecutionResult,
+    TimeLimitMode,
+    CacheLimits,
+    SandboxOptions,
+    BenchmarkOptions,
+    ExecuteOptions
 } from '../types';
-import { CompilerService } from './compiler-service';
+import { CompilerService, OnCompiledCallback } from './compiler-service';
 import { ExecutorService, executorService } from './executor-service';
 import { languageRegistry } from './language-registry';
 import { ResultStorageService } from '../storage/result-storage';
-import { formatRuntimeError } from './signal-parser';
+import { DiskCache } from '../storage/compilation-cache';
+import { describeProgramFailure, formatRuntimeError } from './signal-parser';
+import { formatSanitizerReport, parseSanitizerReport } from './sanitizer-parser';
+import { analyzeRuntimeError, formatExceptionReport } from './runtime-error-analyzer';
+import { compareOutputFiles, DEFAULT_FLOAT_TOLERANCE } from './output-comparator';
+import { CheckerService, CheckerResult, parseCheckerExit } from './checker-service';
+import { ValidatorService } from './validator-service';
+import { defaultConcurrency, runWithConcurrency } from './worker-pool';
+import { summarizeBenchmark } from './benchmark';
+
+/**
+ * Sanitizer builds run several times slower than regular builds, so their time
+ * limit is scaled; their memory use includes the shadow memory, so it is not limited.
+ */
+const SANITIZER_TIME_LIMIT_FACTOR = 3;
 
 export class JudgeService {
     private compiler: CompilerService;
+    private cache: DiskCache;
     private executor: ExecutorService;
     private resultStorage: ResultStorageService;
+    private checker: CheckerService;
+    private validator: ValidatorService;
     private comparisonMode: ComparisonMode;
+    private floatTolerance: FloatTolerance = DEFAULT_FLOAT_TOLERANCE;
+    private maxParallelTests = 0;  // 0 = one less than the number of CPU cores
 
     constructor(
         outputDir: string,
@@ -28,9 +59,12 @@ export class JudgeService {
         comparisonMode: ComparisonMode = 'trim',
         executor?: ExecutorService
     ) {
-        this.compiler = new CompilerService(outputDir);
+        this.cache = new DiskCache(path.join(workspaceRoot, '.fastjudge'));
+        this.compiler = new CompilerService(outputDir, this.cache, workspaceRoot);
         this.executor = executor || executorService;
         this.resultStorage = new ResultStorageService(workspaceRoot);
+        this.checker = new CheckerService();
+        this.validator = new ValidatorService();
         this.comparisonMode = comparisonMode;
     }
 
@@ -46,8 +80,79 @@ export class JudgeService {
     /**
      * Compile source file (for separate compile + execute workflow)
      */
-    async compile(sourcePath: string): Promise<CompileResult> {
-        return this.compiler.compile(sourcePath);
+    async compile(sourcePath: string, options: CompileOptions = {}): Promise<CompileResult> {
+        return this.compiler.compile(sourcePath, options);
+    }
+
+    /**
+     * Register callback for compiles that ran the compiler, including helper programs
+     */
+    onCompiled(callback: OnCompiledCallback): void {
+        this.compiler.onCompiled(callback);
+    }
+
+    /**
+     * Whether the source can be built with sanitizers (C/C++ with gcc or clang)
+     */
+    supportsSanitizers(sourcePath: string): boolean {
+        return this.compiler.supportsSanitizers(sourcePath);
+    }
+
+    /**
+     * Compile a helper program and describe how to run it
+     */
+    async compileProgram(
+        sourcePath: string,
+        signal?: AbortSignal
+    ): Promise<{ program?: CompiledProgram; error?: string; aborted?: boolean }> {
+        const result = await this.compiler.compile(sourcePath, { signal });
+        if (!result.success) {
+            return { error: result.error, aborted: result.aborted };
+        }
+
+        return {
+            program: {
+                sourcePath,
+                outputDir: result.outputDir!,
+                language: languageRegistry.detectProvider(sourcePath)?.id,
+            },
+        };
+    }
+
+    /**
+     * Compile the helper programs used while judging (checker, interactor, validator)
+     */
+    async compileLinkedPrograms(
+        programs: LinkedPrograms,
+        signal?: AbortSignal
+    ): Promise<{ options: JudgeOptions; error?: string; aborted?: boolean }> {
+        const options: JudgeOptions = {};
+
+        if (programs.checker) {
+            const checker = await this.compileProgram(programs.checker, signal);
+            if (!checker.program) {
+                return { options, error: `Checker compilation failed: ${checker.error}`, aborted: checker.aborted };
+            }
+            options.checker = checker.program;
+        }
+
+        if (programs.interactor) {
+            const interactor = await this.compileProgram(programs.interactor, signal);
+            if (!interactor.program) {
+                return { options, error: `Interactor compilation failed: ${interactor.error}`, aborted: interactor.aborted };
+            }
+            options.interactor = interactor.program;
+        }
+
+        if (programs.validator) {
+            const validator = await this.compileProgram(programs.validator, signal);
+            if (!validator.program) {
+                return { options, error: `Validator compilation failed: ${validator.error}`, aborted: validator.aborted };
+            }
+            options.validator = validator.program;
+        }
+
+        return { options };
     }
 
     /**
@@ -64,22 +169,82 @@ export class JudgeService {
     async judgeAll(
         sourcePath: string,
         testCases: TestCaseWithData[],
-        signal?: AbortSignal
+        signal?: AbortSignal,
+        programs: LinkedPrograms = {},
+        options: JudgeOptions = {}
+    ): Promise<JudgeResult[]> {
+        return this.compileAndRun(sourcePath, testCases, signal, programs, options,
+            (outputDir, testCase, language, runOptions) =>
+                this.judgeTestCase(sourcePath, outputDir, testCase, language, signal, runOptions));
+    }
+
+    /**
+     * Benchmark all test cases for a source file: judge each test, then run the
+     * ones that completed (AC or WA) repeatedly and attach timing statistics.
+     * onResult is called as each test finishes.
+     */
+    async benchmarkAll(
+        sourcePath: string,
+        testCases: TestCaseWithData[],
+        benchmark: BenchmarkOptions,
+        signal?: AbortSignal,
+        programs: LinkedPrograms = {},
+        options: JudgeOptions = {},
+        onResult?: (result: JudgeResult) => void | Promise<void>
+    ): Promise<JudgeResult[]> {
+        return this.compileAndRun(sourcePath, testCases, signal, programs, options,
+            async (outputDir, testCase, language, runOptions) => {
+                const result = await this.benchmarkTestCase(
+                    sourcePath, outputDir, testCase, benchmark, language, signal, runOptions);
+                await onResult?.(result);
+                return result;
+            });
+    }
+
+    /**
+     * Compile the solution and its helper programs once, then run each test case in order
+     * (CE, IE or STOPPED for every test when a compile fails)
+     */
+    private async compileAndRun(
+        sourcePath: string,
+        testCases: TestCaseWithData[],
+        signal: AbortSignal | undefined,
+        programs: LinkedPrograms,
+        options: JudgeOptions,
+        run: (outputDir: string, testCase: TestCaseWithData, language: string | undefined, options: JudgeOptions) => Promise<JudgeResult>
     ): Promise<JudgeResult[]> {
         const results: JudgeResult[] = [];
 
         // Compile once
-        const compileResult = await this.compiler.compile(sourcePath);
+        const compileResult = await this.compiler.compile(sourcePath, {
+            profile: options.profile,
+            sanitize: options.sanitize,
+            extraSources: options.extraSources,
+            signal,
+        });
 
         if (!compileResult.success) {
-            // Return CE for all test cases
+            // Return CE for all test cases (STOPPED if the compile was cancelled)
             return testCases.map((tc) => ({
                 testCaseId: tc.id,
-                verdict: 'CE' as Verdict,
+                verdict: (compileResult.aborted ? 'STOPPED' : 'CE') as Verdict,
                 executionTimeMs: 0,
                 actualOutput: '',
                 expectedOutput: tc.expected,
-                errorMessage: compileResult.error,
+                errorMessage: compileResult.aborted ? undefined : compileResult.error,
+            }));
+        }
+
+        // Compile helper programs once
+        const linked = await this.compileLinkedPrograms(programs, signal);
+        if (linked.error) {
+            return testCases.map((tc) => ({
+                testCaseId: tc.id,
+                verdict: (linked.aborted ? 'STOPPED' : 'IE') as Verdict,
+                executionTimeMs: 0,
+                actualOutput: '',
+                expectedOutput: tc.expected,
+                errorMessage: linked.error,
             }));
         }
 
@@ -89,19 +254,32 @@ export class JudgeService {
 
         // Run each test case
         for (const testCase of testCases) {
-            const result = await this.judgeTestCase(
-                sourcePath,
-                compileResult.outputDir!,
-                testCase,
-                language,
-                signal
-            );
-            results.push(result);
+            results.push(await run(compileResult.outputDir!, testCase, language, { ...options, ...linked.options }));
         }
 
         return results;
     }
 
+    /**
+     * Judge test cases of a compiled program in parallel, at most getParallelism() at a time.
+     * onResult is called as each test finishes; results are returned in test order.
+     */
+    async judgeParallel(
+        sourcePath: string,
+        outputDir: string,
+        testCases: TestCaseWithData[],
+        language?: string,
+        signal?: AbortSignal,
+        options: JudgeOptions = {},
+        onResult?: (result: JudgeResult) => void | Promise<void>
+    ): Promise<JudgeResult[]> {
+        return runWithConcurrency(testCases, this.getParallelism(), async (testCase) => {
+            const result = await this.judgeTestCase(sourcePath, outputDir, testCase, language, signal, options);
+            await onResult?.(result);
+            return result;
+        });
+    }
+
     /**
      * Judge a single test case
      */
@@ -110,20 +288,31 @@ export class JudgeService {
         outputDir: string,
         testCase: TestCaseWithData,
         language?: string,
-        signal?: AbortSignal
+        signal?: AbortSignal,
+        options: JudgeOptions = {}
     ): Promise<JudgeResult> {
         try {
             // Delete previous results for this test case
             await this.resultStorage.deleteResults(testCase.id);
 
-            // Execute
-            const execResult = await this.executor.execute(
-                sourcePath,
-                outputDir,
-                testCase.input,
-                language,
-                signal
-            );
+            // Reject inputs that violate the problem constraints before running the solution
+            if (options.validator) {
+                const invalid = await this.validateInput(testCase, options.validator, signal);
+                if (invalid) {
+                    return invalid;
+                }
+            }
+
+            if (options.interactor) {
+                return await this.judgeInteractive(sourcePath, outputDir, testCase, language, signal, options);
+            }
+
+            // Execute, streaming the input from its data file and the output to the result files
+            const { stdoutPath, stderrPath } = await this.resultStorage.getOutputPaths(testCase.id);
+            const execOptions: ExecuteOptions = { ...this.getRunLimits(options), profile: options.profile, stdoutPath, stderrPath };
+            const execResult = testCase.inputPath
+                ? await this.executor.executeWithFile(sourcePath, outputDir, testCase.inputPath, language, signal, execOptions)
+                : await this.executor.execute(sourcePath, outputDir, testCase.input, language, signal, execOptions);
 
             // If aborted by user, mark as STOPPED
             if (execResult.aborted) {
@@ -136,30 +325,68 @@ export class JudgeService {
                 };
             }
 
-            // Save results to files
-            const { stdoutPath, stderrPath } = await this.resultStorage.saveResults(
-                testCase.id,
-                execResult.stdout,
-                execResult.stderr
-            );
+            // The executor keeps only the start and end of streamed output (for the UI)
+            const truncatedStdout = { text: execResult.stdout, truncated: !!execResult.outputTruncated };
+            const truncatedStderr = { text: execResult.stderr, truncated: !!execResult.stderrTruncated };
 
-            // Get truncated output for UI
-            const truncatedStdout = this.resultStorage.truncateString(execResult.stdout);
-            const truncatedStderr = this.resultStorage.truncateString(execResult.stderr);
+            // Check for OLE (the process was killed when its output crossed the limit)
+            if (execResult.outputLimitExceeded) {
+                const oleResult: JudgeResult = {
+                    testCaseId: testCase.id,
+                    verdict: 'OLE',
+                    executionTimeMs: execResult.executionTimeMs,
+                    cpuTimeMs: execResult.cpuTimeMs,
+                    memoryUsageKb: execResult.memoryUsageKb,
+                    orphanedProcesses: execResult.orphanedProcesses,
+                    actualOutput: truncatedStdout.text,
+                    expectedOutput: testCase.expected,
+                    stdoutPath,
+                    stderrPath,
+                    outputTruncated: true,
+                    stderr: truncatedStderr.text,
+                    errorMessage: this.formatOutputLimitError(),
+                };
+                await this.resultStorage.saveJudgeResult(oleResult);
+                return oleResult;
+            }
 
-            // Check for TLE
+            // Check for MLE (the process was killed when it crossed the limit)
+            if (execResult.memoryLimitExceeded) {
+                const mleResult: JudgeResult = {
+                    testCaseId: testCase.id,
+                    verdict: 'MLE',
+                    executionTimeMs: execResult.executionTimeMs,
+                    cpuTimeMs: execResult.cpuTimeMs,
+                    memoryUsageKb: execResult.memoryUsageKb,
+                    orphanedProcesses: execResult.orphanedProcesses,
+                    actualOutput: truncatedStdout.text,
+                    expectedOutput: testCase.expected,
+                    stdoutPath,
+                    stderrPath,
+                    outputTruncated: truncatedStdout.truncated,
+                    stderr: truncatedStderr.text,
+                    errorMessage: this.formatMemoryLimitError(options),
+                };
+                await this.resultStorage.saveJudgeResult(mleResult);
+                return mleResult;
+            }
+
+            // Check for TLE (or ILE if the program was waiting rather than running)
             if (execResult.timedOut) {
                 const tleResult: JudgeResult = {
                     testCaseId: testCase.id,
-                    verdict: 'TLE',
+                    verdict: execResult.idlenessLimitExceeded ? 'ILE' : 'TLE',
                     executionTimeMs: execResult.executionTimeMs,
+                    cpuTimeMs: execResult.cpuTimeMs,
+                    memoryUsageKb: execResult.memoryUsageKb,
+                    orphanedProcesses: execResult.orphanedProcesses,
                     actualOutput: truncatedStdout.text,
                     expectedOutput: testCase.expected,
                     stdoutPath,
                     stderrPath,
                     outputTruncated: truncatedStdout.truncated,
                     stderr: truncatedStderr.text,
-                    errorMessage: `Time Limit Exceeded (>${this.executor.getTimeLimit()}ms)`,
+                    errorMessage: this.formatTimeLimitError(execResult, options),
                 };
                 await this.resultStorage.saveJudgeResult(tleResult);
                 return tleResult;
@@ -171,6 +398,9 @@ export class JudgeService {
                     testCaseId: testCase.id,
                     verdict: 'RE',
                     executionTimeMs: execResult.executionTimeMs,
+                    cpuTimeMs: execResult.cpuTimeMs,
+                    memoryUsageKb: execResult.memoryUsageKb,
+                    orphanedProcesses: execResult.orphanedProcesses,
                     actualOutput: truncatedStdout.text,
                     expectedOutput: testCase.expected,
                     stdoutPath,
@@ -179,25 +409,42 @@ export class JudgeService {
                     exitCode: execResult.exitCode,
                     signal: execResult.signal,
                     stderr: truncatedStderr.text,
-                    errorMessage: formatRuntimeError(execResult.exitCode, execResult.signal),
+                    ...this.describeRuntimeError(sourcePath, execResult),
                 };
                 await this.resultStorage.saveJudgeResult(reResult);
                 return reResult;
             }
 
-            // Compare output (use full output for comparison, not truncated)
-            const isCorrect = this.compareOutput(execResult.stdout, testCase.expected);
+            // Decide verdict with the custom checker, or compare output
+            // (use the full output file for comparison, not the truncated preview)
+            const check = options.checker
+                ? await this.runChecker(options.checker, testCase, stdoutPath, signal)
+                : await this.compare(stdoutPath, testCase);
+
+            if (check.aborted) {
+                return {
+                    testCaseId: testCase.id,
+                    verdict: 'STOPPED',
+                    executionTimeMs: 0,
+                    actualOutput: '',
+                    expectedOutput: testCase.expected,
+                };
+            }
 
             const result: JudgeResult = {
                 testCaseId: testCase.id,
-                verdict: isCorrect ? 'AC' : 'WA',
+                verdict: check.verdict,
                 executionTimeMs: execResult.executionTimeMs,
+                cpuTimeMs: execResult.cpuTimeMs,
+                memoryUsageKb: execResult.memoryUsageKb,
+                orphanedProcesses: execResult.orphanedProcesses,
                 actualOutput: truncatedStdout.text,
                 expectedOutput: testCase.expected,
                 stdoutPath,
                 stderrPath,
                 outputTruncated: truncatedStdout.truncated,
                 stderr: truncatedStderr.text,
+                errorMessage: check.verdict !== 'AC' && check.message ? check.message : undefined,
             };
             await this.resultStorage.saveJudgeResult(result);
             return result;
@@ -216,43 +463,313 @@ export class JudgeService {
     }
 
     /**
-     * Compare actual output with expected output
+     * Judge a test case of an interactive problem.
+     * The interactor gets the test input and a file for its own output
+     * (testlib: interactor <input-file> <output-file>) and decides the verdict.
+     */
+    private async judgeInteractive(
+        sourcePath: string,
+        outputDir: string,
+        testCase: TestCaseWithData,
+        language: string | undefined,
+        signal: AbortSignal | undefined,
+        options: JudgeOptions
+    ): Promise<JudgeResult> {
+        const { inputPath, answerPath } = await this.resolveTestDataPaths(testCase);
+        const interactorOutputPath = await this.resultStorage.getResultFilePath(testCase.id, 'interactor.txt');
+
+        const execResult = await this.executor.executeInteractive(
+            sourcePath,
+            outputDir,
+            options.interactor!,
+            [inputPath, interactorOutputPath],
+            language,
+            signal,
+            {
+                ...this.getRunLimits(options),
+                profile: options.profile,
+                interactorStdoutPath: await this.resultStorage.getResultFilePath(testCase.id, 'interactor-stdout.txt'),
+                interactorStderrPath: await this.resultStorage.getResultFilePath(testCase.id, 'interactor-stderr.txt'),
+            }
+        );
+
+        if (execResult.aborted) {
+            return {
+                testCaseId: testCase.id,
+                verdict: 'STOPPED',
+                executionTimeMs: 0,
+                actualOutput: '',
+                expectedOutput: testCase.expected,
+            };
+        }
+
+        const { solution, interactor } = execResult;
+        const { stdoutPath, stderrPath } = await this.resultStorage.saveResults(
+            testCase.id,
+            solution.stdout,
+            solution.stderr
+        );
+        const truncatedStdout = this.resultStorage.truncateString(solution.stdout);
+        const truncatedStderr = this.resultStorage.truncateString(solution.stderr);
+
+        const result: JudgeResult = {
+            testCaseId: testCase.id,
+            verdict: 'AC',
+            executionTimeMs: execResult.executionTimeMs,
+            cpuTimeMs: solution.cpuTimeMs,
+            memoryUsageKb: solution.memoryUsageKb,
+            orphanedProcesses: solution.orphanedProcesses,
+            actualOutput: truncatedStdout.text,
+            expectedOutput: testCase.expected,
+            stdoutPath,
+            stderrPath,
+            outputTruncated: truncatedStdout.truncated,
+            stderr: truncatedStderr.text,
+            transcript: execResult.transcriptTruncated
+                ? `${execResult.transcript}... [transcript truncated]\n`
+                : execResult.transcript,
+        };
+
+        // SIGPIPE means the interactor stopped reading, so its verdict comes first
+        const solutionFailed = solution.exitCode !== 0 || !!solution.signal;
+        const brokenPipe = solution.signal === 'SIGPIPE';
+        const interactorVerdict = parseCheckerExit(interactor.exitCode, interactor.stderr.trim(), 'Interactor');
+
+        if (solution.outputLimitExceeded) {
+            result.verdict = 'OLE';
+            result.errorMessage = this.formatOutputLimitError();
+        } else if (solution.memoryLimitExceeded) {
+            result.verdict = 'MLE';
+            result.errorMessage = this.formatMemoryLimitError(options);
+        } else if (execResult.timedOut) {
+            result.verdict = solution.idlenessLimitExceeded ? 'ILE' : 'TLE';
+            result.errorMessage = this.formatTimeLimitError(solution, options);
+        } else if (solutionFailed && !brokenPipe) {
+            result.verdict = 'RE';
+            result.exitCode = solution.exitCode;
+            result.signal = solution.signal;
+            Object.assign(result, this.describeRuntimeError(sourcePath, solution));
+        } else if (interactor.signal) {
+            result.verdict = 'IE';
+            result.errorMessage = `Interactor crashed (${interactor.signal})`;
+        } else if (interactorVerdict.verdict !== 'AC') {
+            result.verdict = interactorVerdict.verdict;
+            result.errorMessage = interactorVerdict.message;
+        } else if (solutionFailed) {
+            result.verdict = 'RE';
+            result.exitCode = solution.exitCode;
+            result.signal = solution.signal;
+            Object.assign(result, this.describeRuntimeError(sourcePath, solution));
+        } else if (options.checker) {
+            // Check the interactor's output against the answer
+            const check = await this.checker.check(
+                options.checker,
+                { inputPath, outputPath: interactorOutputPath, answerPath },
+                signal
+            );
+            if (check.aborted) {
+                return { ...result, verdict: 'STOPPED', executionTimeMs: 0 };
+            }
+            result.verdict = check.verdict;
+            result.errorMessage = check.verdict !== 'AC' && check.message ? check.message : undefined;
+        }
+
+        await this.resultStorage.saveJudgeResult(result);
+        return result;
+    }
+
+    /**
+     * Judge a test case, then run the program repeatedly on it: warm-up runs are
+     * discarded and the measured runs give the distribution of time and memory.
+     * Tests that did not run to completion (TLE, RE, ...) and interactive tests are not benchmarked.
      */
-    private compareOutput(actual: string, expected: string): boolean {
-        switch (this.comparisonMode) {
-            case 'exact':
-                return actual === expected;
+    async benchmarkTestCase(
+        sourcePath: string,
+        outputDir: string,
+        testCase: TestCaseWithData,
+        benchmark: BenchmarkOptions,
+        language?: string,
+        signal?: AbortSignal,
+        options: JudgeOptions = {}
+    ): Promise<JudgeResult> {
+        const result = await this.judgeTestCase(sourcePath, outputDir, testCase, language, signal, options);
+        if ((result.verdict !== 'AC' && result.verdict !== 'WA') || options.interactor) {
+            return result;
+        }
+
+        // The judged output stays in the result files; repeated runs write to scratch files
+        const execOptions: ExecuteOptions = {
+            ...this.getRunLimits(options),
+            profile: options.profile,
+            stdoutPath: await this.resultStorage.getResultFilePath(testCase.id, 'benchmark-stdout.txt'),
+            stderrPath: await this.resultStorage.getResultFilePath(testCase.id, 'benchmark-stderr.txt'),
+        };
+
+        const samples: ExecutionResult[] = [];
+        let error: string | undefined;
+        for (let run = 1; run <= benchmark.warmupRuns + benchmark.runs; run++) {
+            const execResult = testCase.inputPath
+                ? await this.executor.executeWithFile(sourcePath, outputDir, testCase.inputPath, language, signal, execOptions)
+                : await this.executor.execute(sourcePath, outputDir, testCase.input, language, signal, execOptions);
+            if (execResult.aborted) {
+                // Stopped: keep the verdict without a partial benchmark
+                return result;
+            }
 
-            case 'trim':
-                return this.normalizeOutput(actual) === this.normalizeOutput(expected);
+            error = describeProgramFailure(`Run ${run}`, execResult, this.getRunTimeLimit(options));
+            if (error) {
+                break;
+            }
+            if (run > benchmark.warmupRuns) {
+                samples.push(execResult);
+            }
+        }
 
-            case 'ignoreWhitespace':
-                return this.collapseWhitespace(actual) === this.collapseWhitespace(expected);
+        result.benchmark = summarizeBenchmark(samples, benchmark.warmupRuns, error);
+        await this.resultStorage.saveJudgeResult(result);
+        return result;
+    }
 
-            default:
-                return this.normalizeOutput(actual) === this.normalizeOutput(expected);
+    /**
+     * Run the validator on a test input
+     * Returns a result to report instead of judging, or undefined if the input is valid
+     */
+    private async validateInput(
+        testCase: TestCaseWithData,
+        validator: CompiledProgram,
+        signal?: AbortSignal
+    ): Promise<JudgeResult | undefined> {
+        const validation = testCase.inputPath
+            ? await this.validator.validateFile(validator, testCase.inputPath, signal)
+            : await this.validator.validate(validator, testCase.input, signal);
+        if (validation.valid) {
+            return undefined;
+        }
+
+        const result: JudgeResult = {
+            testCaseId: testCase.id,
+            verdict: 'INVALID',
+            executionTimeMs: 0,
+            actualOutput: '',
+            expectedOutput: testCase.expected,
+            validatorMessage: validation.message,
+            errorMessage: `Invalid input${validation.message ? `: ${validation.message}` : ''}`,
+        };
+
+        if (validation.aborted) {
+            return { ...result, verdict: 'STOPPED', validatorMessage: undefined, errorMessage: undefined };
+        }
+        if (validation.error) {
+            result.verdict = 'IE';
+            result.errorMessage = validation.error;
         }
+
+        await this.resultStorage.saveJudgeResult(result);
+        return result;
+    }
+
+    /**
+     * Describe a runtime error, using the sanitizer report when the build had one
+     * and the uncaught exception for languages whose runtime reports one
+     */
+    private describeRuntimeError(
+        sourcePath: string,
+        execResult: ExecutionResult
+    ): Pick<JudgeResult, 'errorMessage' | 'sanitizer' | 'exception'> {
+        const sanitizer = parseSanitizerReport(execResult.stderr, sourcePath);
+        if (sanitizer) {
+            return { errorMessage: `Runtime Error — ${formatSanitizerReport(sanitizer)}`, sanitizer };
+        }
+
+        const format = languageRegistry.detectProvider(sourcePath)?.getRuntimeErrorFormat();
+        const exception = analyzeRuntimeError(execResult.stderr, sourcePath, format);
+        if (exception) {
+            return { errorMessage: `Runtime Error — ${formatExceptionReport(exception)}`, exception };
+        }
+        return { errorMessage: formatRuntimeError(execResult.exitCode, execResult.signal) };
+    }
+
+    /**
+     * Memory limit and time limit factor of a solution run (relaxed for sanitizer builds)
+     */
+    private getRunLimits(options: JudgeOptions): Pick<ExecuteOptions, 'memoryLimitMb' | 'timeLimitFactor'> {
+        return options.sanitize
+            ? { memoryLimitMb: 0, timeLimitFactor: SANITIZER_TIME_LIMIT_FACTOR }
+            : { memoryLimitMb: options.memoryLimitMb };
+    }
+
+    /**
+     * Time limit a solution run was given, scaled like in getRunLimits()
+     */
+    private getRunTimeLimit(options: JudgeOptions): number {
+        return this.executor.getTimeLimit() * (this.getRunLimits(options).timeLimitFactor ?? 1);
+    }
+
+    /**
+     * Describe the time or idleness limit that was exceeded
+     */
+    private formatTimeLimitError(execResult: ExecutionResult, options: JudgeOptions): string {
+        if (execResult.idlenessLimitExceeded) {
+            const cpuTimeMs = Math.round(execResult.cpuTimeMs ?? 0);
+            const wallTimeMs = Math.round(execResult.executionTimeMs);
+            return `Idleness Limit Exceeded (used ${cpuTimeMs}ms of CPU time in ${wallTimeMs}ms; waiting for input?)`;
+        }
+        const clock = this.executor.getTimeLimitMode() === 'cpu' && execResult.cpuTimeMs !== undefined ? ' CPU time' : '';
+        const timeLimitMs = this.getRunTimeLimit(options);
+        const sanitizer = options.sanitize ? ', sanitizer build' : '';
+        return `Time Limit Exceeded (>${timeLimitMs}ms${clock}${sanitizer})`;
     }
 
     /**
-     * Normalize output: trim lines and remove trailing newlines
+     * Describe the memory limit that was exceeded
      */
-    private normalizeOutput(output: string): string {
-        return output
-            .split('\n')
-            .map((line) => line.trimEnd())
-            .join('\n')
-            .trimEnd();
+    private formatMemoryLimitError(options: JudgeOptions): string {
+        const limitMb = options.memoryLimitMb ?? this.executor.getMemoryLimit();
+        return `Memory Limit Exceeded (>${limitMb}MB)`;
     }
 
     /**
-     * Collapse all whitespace to single spaces
+     * Describe the output limit that was exceeded
      */
-    private collapseWhitespace(output: string): string {
-        return output.replace(/\s+/g, ' ').trim();
+    private formatOutputLimitError(): string {
+        return `Output Limit Exceeded (>${this.executor.getOutputLimit()}MB)`;
     }
 
+    /**
+     * Compare the output file with the expected output using the configured comparison mode
+     */
+    private async compare(outputPath: string, testCase: TestCaseWithData): Promise<CheckerResult> {
+        const { answerPath } = await this.resolveTestDataPaths(testCase);
+        const comparison = await compareOutputFiles(outputPath, answerPath, this.comparisonMode, this.floatTolerance);
+        return {
+            verdict: comparison.match ? 'AC' : 'WA',
+            message: comparison.message ?? '',
+        };
+    }
+
+    /**
+     * Run the custom checker on the program output
+     */
+    private async runChecker(
+        checker: CompiledProgram,
+        testCase: TestCaseWithData,
+        outputPath: string,
+        signal?: AbortSignal
+    ): Promise<CheckerResult> {
+        const { inputPath, answerPath } = await this.resolveTestDataPaths(testCase);
+        return this.checker.check(checker, { inputPath, outputPath, answerPath }, signal);
+    }
 
+    /**
+     * Get file paths of the test input and expected output.
+     * Test data is written next to the results if it was not loaded from storage.
+     */
+    private async resolveTestDataPaths(testCase: TestCaseWithData): Promise<{ inputPath: string; answerPath: string }> {
+        if (testCase.inputPath && testCase.expectedPath) {
+            return { inputPath: testCase.inputPath, answerPath: testCase.expectedPath };
+        }
+        return this.resultStorage.saveTestData(testCase.id, testCase.input, testCase.expected);
+    }
 
     /**
      * Set comparison mode
@@ -268,6 +785,27 @@ export class JudgeService {
         return this.comparisonMode;
     }
 
+    /**
+     * Set error tolerance for the float comparison mode
+     */
+    setFloatTolerance(tolerance: FloatTolerance): void {
+        this.floatTolerance = tolerance;
+    }
+
+    /**
+     * Set how many tests judgeParallel runs at once (0 = one less than the number of CPU cores)
+     */
+    setMaxParallelTests(count: number): void {
+        this.maxParallelTests = count;
+    }
+
+    /**
+     * Get how many tests judgeParallel runs at once
+     */
+    getParallelism(): number {
+        return this.maxParallelTests > 0 ? this.maxParallelTests : defaultConcurrency();
+    }
+
     /**
      * Set time limit (delegates to executor)
      */
@@ -275,10 +813,87 @@ export class JudgeService {
         this.executor.setTimeLimit(ms);
     }
 
+    /**
+     * Set which clock the time limit applies to (delegates to executor)
+     */
+    setTimeLimitMode(mode: TimeLimitMode): void {
+        this.executor.setTimeLimitMode(mode);
+    }
+
+    /**
+     * Set default memory limit (delegates to executor)
+     */
+    setMemoryLimit(mb: number): void {
+        this.executor.setMemoryLimit(mb);
+    }
+
+    /**
+     * Set output limit (delegates to executor)
+     */
+    setOutputLimit(mb: number): void {
+        this.executor.setOutputLimit(mb);
+    }
+
+    /**
+     * Get output limit (shared with the stress tester's and reference runner's executors)
+     */
+    getOutputLimit(): number {
+        return this.executor.getOutputLimit();
+    }
+
+    /**
+     * Set sandbox restrictions for judged programs (delegates to executor)
+     */
+    setSandbox(options: SandboxOptions): void {
+        this.executor.setSandbox(options);
+    }
+
+    /**
+     * Get sandbox restrictions (shared with the stress tester's and reference runner's executors)
+     */
+    getSandbox(): SandboxOptions {
+        return this.executor.getSandbox();
+    }
+
+    /**
+     * Set compile time limit (delegates to compiler)
+     */
+    setCompileTimeLimit(ms: number): void {
+        this.compiler.setCompileTimeLimit(ms);
+    }
+
+    /**
+     * Set when cached builds are evicted
+     */
+    setCacheLimits(limits: CacheLimits): void {
+        this.cache.setLimits(limits);
+    }
+
+    /**
+     * Delete the builds of a deleted or renamed source file or folder
+     */
+    async removeArtifacts(targetPath: string): Promise<void> {
+        await this.compiler.removeArtifacts(targetPath);
+    }
+
+    /**
+     * Move saved results to another test case ID
+     */
+    async moveResults(fromId: string, toId: string): Promise<JudgeResult | undefined> {
+        return this.resultStorage.moveResults(fromId, toId);
+    }
+
+    /**
+     * Delete saved results of a test case
+     */
+    async deleteResults(testCaseId: string): Promise<void> {
+        await this.resultStorage.deleteResults(testCaseId);
+    }
+
     /**
      * Clear compilation cache
      */
-    clearCache(): void {
-        this.compiler.clearCache();
+    async clearCache(): Promise<void> {
+        await this.compiler.clearCache();
     }
 }
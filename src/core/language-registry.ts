@@ -5,7 +5,11 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { LanguageConfig, ILanguageProvider } from '../types';
+import { LanguageConfig, LanguageProfile, ILanguageProvider, RuntimeErrorFormat } from '../types';
+import { DEFAULT_RUNTIME_ERROR_FORMATS } from './runtime-error-analyzer';
+
+/** Name of the profile made of a language's own compileArgs and runArgs */
+export const DEFAULT_PROFILE = 'default';
 
 /**
  * A generic language provider driven by configuration.
@@ -17,6 +21,10 @@ export class CustomLanguageProvider implements ILanguageProvider {
     private compileArgs?: string[];
     private runArgs: string[];
     private outputExtension?: string;
+    private profiles: Record<string, LanguageProfile>;
+    private precompiledHeader?: string;
+    private diagnosticPattern?: string;
+    private runtimeErrorFormat?: RuntimeErrorFormat;
 
     constructor(id: string, config: LanguageConfig) {
         this.id = id;
@@ -25,26 +33,56 @@ export class CustomLanguageProvider implements ILanguageProvider {
         this.compileArgs = config.compileArgs;
         this.runArgs = config.runArgs;
         this.outputExtension = config.outputExtension;
+        this.profiles = config.profiles || {};
+        this.precompiledHeader = config.precompiledHeader;
+        this.diagnosticPattern = config.diagnosticPattern;
+        this.runtimeErrorFormat = config.runtimeErrorFormat;
     }
 
-    getCompileCommand(sourcePath: string, outputDir: string): { command: string; args: string[] } | null {
-        if (!this.compileArgs || this.compileArgs.length === 0) {
+    getCompileCommand(sourcePath: string, outputDir: string, profile?: string): { command: string; args: string[] } | null {
+        const compileArgs = this.getCompileArgs(profile);
+        if (!compileArgs || compileArgs.length === 0) {
             return null;
         }
 
-        const args = this.compileArgs.map(str => this.interpolateVariables(str, sourcePath, outputDir));
+        const args = compileArgs.map(str => this.interpolateVariables(str, sourcePath, outputDir));
         const command = args.shift()!;
 
         return { command, args };
     }
 
-    getRunCommand(sourcePath: string, outputDir: string): { command: string; args: string[] } {
-        const args = this.runArgs.map(str => this.interpolateVariables(str, sourcePath, outputDir));
+    getRunCommand(sourcePath: string, outputDir: string, profile?: string): { command: string; args: string[] } {
+        const runArgs = (profile && this.profiles[profile]?.runArgs) || this.runArgs;
+        const args = runArgs.map(str => this.interpolateVariables(str, sourcePath, outputDir));
         const command = args.shift()!;
 
         return { command, args };
     }
 
+    getProfiles(): string[] {
+        return [DEFAULT_PROFILE, ...Object.keys(this.profiles).filter(name => name !== DEFAULT_PROFILE)];
+    }
+
+    getPrecompiledHeader(profile?: string): string | undefined {
+        const header = (profile && this.profiles[profile]?.precompiledHeader) ?? this.precompiledHeader;
+        return header || undefined;
+    }
+
+    getDiagnosticPattern(): string | undefined {
+        return this.diagnosticPattern || undefined;
+    }
+
+    getRuntimeErrorFormat(): RuntimeErrorFormat | undefined {
+        return this.runtimeErrorFormat ?? DEFAULT_RUNTIME_ERROR_FORMATS[this.id];
+    }
+
+    /**
+     * Compile arguments of a profile, falling back to the language's own
+     */
+    private getCompileArgs(profile?: string): string[] | undefined {
+        return (profile && this.profiles[profile]?.compileArgs) || this.compileArgs;
+    }
+
     private interpolateVariables(str: string, sourcePath: string, outputDir: string): string {
         const className = path.parse(sourcePath).name;
         const binaryExt = process.platform === 'win32' ? '.exe' : '';
@@ -60,8 +98,9 @@ export class CustomLanguageProvider implements ILanguageProvider {
      * Get the compiled executable path for this language.
      * Returns undefined if the language is interpreted (no compileArgs).
      */
-    getExecutablePath(sourcePath: string, outputDir: string): string | undefined {
-        if (!this.compileArgs || this.compileArgs.length === 0) {
+    getExecutablePath(sourcePath: string, outputDir: string, profile?: string): string | undefined {
+        const compileArgs = this.getCompileArgs(profile);
+        if (!compileArgs || compileArgs.length === 0) {
             return undefined;
         }
         const fileNameWithoutExt = path.parse(sourcePath).name;
@@ -102,6 +141,13 @@ export class LanguageRegistry {
         }
     }
 
+    /**
+     * Add or replace a provider outside the configuration (until the next load)
+     */
+    public register(provider: ILanguageProvider): void {
+        this.providers.set(provider.id, provider);
+    }
+
     /**
      * Get provider by exact language ID
      */
@@ -0,0 +1,119 @@
+/**
+ * Output Capture
+ * Collects the stdout or stderr of a running program without holding an
+ * unbounded amount of it in memory:
+ *
+ * - Streamed: written to a file as it arrives; only the first and last 5KB
+ *   are kept in memory as a preview (the same window the panel shows).
+ * - In memory: kept in full, for output that is used as data (generated
+ *   inputs, reference outputs).
+ *
+ * Either way, output beyond the limit is discarded.
+ */
+
+import * as fs from 'fs';
+import { formatBytes, TRUNCATE_LIMIT } from '../storage/result-storage';
+
+export class OutputCapture {
+    private file: fs.WriteStream | undefined;
+    private closed: Promise<void> | undefined;
+    private head: Buffer[] = [];      // All output (in memory) or the start of the preview (streamed)
+    private headBytes = 0;
+    private tail = Buffer.alloc(0);  // End of the preview (streamed)
+    private storedBytes = 0;
+    private totalBytes = 0;
+
+    /**
+     * @param limitBytes Output beyond this is discarded (Infinity = no limit)
+     * @param filePath File to stream the output to (keeps everything in memory if omitted)
+     */
+    constructor(private readonly limitBytes: number, filePath?: string) {
+        if (filePath) {
+            this.file = fs.createWriteStream(filePath);
+            // A failed write leaves the file incomplete; the preview is still reported
+            this.file.on('error', () => { });
+        }
+    }
+
+    /**
+     * Add a chunk of output
+     * @returns false once the output has exceeded the limit
+     */
+    write(chunk: Buffer): boolean {
+        this.totalBytes += chunk.length;
+
+        const room = Math.max(this.limitBytes - this.storedBytes, 0);
+        const data = chunk.length > room ? chunk.subarray(0, room) : chunk;
+        this.storedBytes += data.length;
+
+        if (data.length > 0) {
+            if (this.file) {
+                this.file.write(data);
+                this.addToPreview(data);
+            } else {
+                this.head.push(data);
+            }
+        }
+        return this.totalBytes <= this.limitBytes;
+    }
+
+    /**
+     * Whether the output exceeded the limit
+     */
+    isLimitExceeded(): boolean {
+        return this.totalBytes > this.limitBytes;
+    }
+
+    /**
+     * Whether getText() is missing part of the output (preview window or limit)
+     */
+    isTruncated(): boolean {
+        return this.getOmittedBytes() > 0 || this.isLimitExceeded();
+    }
+
+    /**
+     * The full output (in memory), or the first and last 5KB (streamed)
+     */
+    getText(): string {
+        const omitted = this.getOmittedBytes();
+        if (omitted === 0) {
+            return Buffer.concat([...this.head, this.tail]).toString('utf-8');
+        }
+
+        const separator = `\n\n... [${formatBytes(omitted)} truncated] ...\n\n`;
+        return Buffer.concat(this.head).toString('utf-8') + separator + this.tail.toString('utf-8');
+    }
+
+    /**
+     * Finish writing the file (resolves once it is complete on disk)
+     */
+    close(): Promise<void> {
+        if (!this.closed) {
+            const file = this.file;
+            this.closed = !file || file.destroyed
+                ? Promise.resolve()
+                : new Promise((resolve) => {
+                    file.once('close', () => resolve());
+                    file.end();
+                });
+        }
+        return this.closed;
+    }
+
+    private addToPreview(data: Buffer): void {
+        const headRoom = TRUNCATE_LIMIT - this.headBytes;
+        if (headRoom > 0) {
+            const start = data.subarray(0, headRoom);
+            this.head.push(start);
+            this.headBytes += start.length;
+            data = data.subarray(start.length);
+        }
+        if (data.length > 0) {
+            this.tail = Buffer.concat([this.tail, data]).subarray(-TRUNCATE_LIMIT);
+        }
+    }
+
+    private getOmittedBytes(): number {
+        return this.file ? this.storedBytes - this.headBytes - this.tail.length : 0;
+    }
+}
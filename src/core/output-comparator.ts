@@ -0,0 +1,354 @@
+/**
+ * Output Comparator
+ * Compares program output with expected output according to a comparison mode.
+ *
+ * exact:            character-by-character
+ * trim:             trailing whitespace on each line and trailing blank lines ignored
+ * ignoreWhitespace: all whitespace runs collapsed to a single space
+ * float:            whitespace-separated tokens; numbers compared within an error tolerance
+ *
+ * Output files are compared as streams (compareOutputFiles), so large outputs
+ * are never loaded into memory as a whole.
+ */
+
+import * as fs from 'fs';
+import { ComparisonMode, FloatTolerance } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ComparisonResult {
+    match: boolean;
+    /** Explanation of the first mismatch (only set when it adds information) */
+    message?: string;
+}
+
+interface Token {
+    text: string;
+    line: number;
+}
+
+/** Default tolerance for the float comparison mode */
+export const DEFAULT_FLOAT_TOLERANCE: FloatTolerance = {
+    absoluteError: 1e-6,
+    relativeError: 1e-6,
+};
+
+/** Decimal or scientific notation number (e.g., "42", "-0.5", "1e-9", ".25") */
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/** Block size for comparing files byte by byte */
+const COMPARE_CHUNK_SIZE = 64 * 1024;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Compare actual output with expected output
+ */
+export function compareOutput(
+    actual: string,
+    expected: string,
+    mode: ComparisonMode,
+    tolerance: FloatTolerance = DEFAULT_FLOAT_TOLERANCE
+): ComparisonResult {
+    switch (mode) {
+        case 'exact':
+            return { match: actual === expected };
+
+        case 'ignoreWhitespace':
+            return { match: collapseWhitespace(actual) === collapseWhitespace(expected) };
+
+        case 'float':
+            return compareFloatTokens(actual, expected, tolerance);
+
+        case 'trim':
+        default:
+            return { match: normalizeOutput(actual) === normalizeOutput(expected) };
+    }
+}
+
+/**
+ * Compare an output file with an expected output file (same semantics as compareOutput)
+ */
+export async function compareOutputFiles(
+    actualPath: string,
+    expectedPath: string,
+    mode: ComparisonMode,
+    tolerance: FloatTolerance = DEFAULT_FLOAT_TOLERANCE
+): Promise<ComparisonResult> {
+    switch (mode) {
+        case 'exact':
+            return { match: await filesEqual(actualPath, expectedPath) };
+
+        case 'ignoreWhitespace':
+            return { match: await sequencesEqual(readTokens(actualPath), readTokens(expectedPath), (a, b) => a.text === b.text) };
+
+        case 'float':
+            return compareFloatTokenStreams(readTokens(actualPath), readTokens(expectedPath), tolerance);
+
+        case 'trim':
+        default:
+            return { match: await sequencesEqual(readTrimmedLines(actualPath), readTrimmedLines(expectedPath), (a, b) => a === b) };
+    }
+}
+
+/**
+ * Normalize output: trim lines and remove trailing newlines
+ */
+export function normalizeOutput(output: string): string {
+    return output
+        .split('\n')
+        .map((line) => line.trimEnd())
+        .join('\n')
+        .trimEnd();
+}
+
+/**
+ * Collapse all whitespace to single spaces
+ */
+export function collapseWhitespace(output: string): string {
+    return output.replace(/\s+/g, ' ').trim();
+}
+
+// ============================================================================
+// Float Comparison
+// ============================================================================
+
+/**
+ * Compare token by token. A numeric token matches when either the absolute
+ * or the relative error is within tolerance; other tokens must match exactly.
+ */
+function compareFloatTokens(actual: string, expected: string, tolerance: FloatTolerance): ComparisonResult {
+    const actualTokens = tokenize(actual);
+    const expectedTokens = tokenize(expected);
+    const count = Math.min(actualTokens.length, expectedTokens.length);
+
+    for (let i = 0; i < count; i++) {
+        const mismatch = compareFloatToken(i, actualTokens[i], expectedTokens[i], tolerance);
+        if (mismatch) {
+            return mismatch;
+        }
+    }
+
+    return compareTokenCounts(actualTokens.length, expectedTokens.length);
+}
+
+/**
+ * Float comparison of token streams (see compareFloatTokens)
+ */
+async function compareFloatTokenStreams(
+    actual: AsyncIterable<Token>,
+    expected: AsyncIterable<Token>,
+    tolerance: FloatTolerance
+): Promise<ComparisonResult> {
+    let actualCount = 0;
+    let expectedCount = 0;
+
+    for await (const [act, exp] of zip(actual, expected)) {
+        if (act && exp) {
+            const mismatch = compareFloatToken(actualCount, act, exp, tolerance);
+            if (mismatch) {
+                return mismatch;
+            }
+        }
+        // Keep counting the longer stream for the message
+        actualCount += act ? 1 : 0;
+        expectedCount += exp ? 1 : 0;
+    }
+
+    return compareTokenCounts(actualCount, expectedCount);
+}
+
+/**
+ * Compare the tokens at the same (0-based) index; returns the mismatch, if any
+ */
+function compareFloatToken(index: number, act: Token, exp: Token, tolerance: FloatTolerance): ComparisonResult | undefined {
+    if (NUMBER_PATTERN.test(exp.text) && NUMBER_PATTERN.test(act.text)) {
+        const expValue = Number(exp.text);
+        const actValue = Number(act.text);
+        const absoluteError = Math.abs(actValue - expValue);
+        const relativeError = expValue === 0 ? absoluteError : absoluteError / Math.abs(expValue);
+
+        if (absoluteError <= tolerance.absoluteError || relativeError <= tolerance.relativeError) {
+            return undefined;
+        }
+
+        return {
+            match: false,
+            message: `Wrong Answer: token ${index + 1} (line ${act.line}) — expected ${exp.text}, received ${act.text} ` +
+                `(absolute error ${formatError(absoluteError)}, relative error ${formatError(relativeError)})`,
+        };
+    }
+
+    if (exp.text !== act.text) {
+        return {
+            match: false,
+            message: `Wrong Answer: token ${index + 1} (line ${act.line}) — expected "${exp.text}", received "${act.text}"`,
+        };
+    }
+
+    return undefined;
+}
+
+function compareTokenCounts(actualCount: number, expectedCount: number): ComparisonResult {
+    if (actualCount !== expectedCount) {
+        return {
+            match: false,
+            message: `Wrong Answer: expected ${expectedCount} tokens, received ${actualCount}`,
+        };
+    }
+    return { match: true };
+}
+
+/**
+ * Split output into whitespace-separated tokens, remembering their line numbers
+ */
+function tokenize(output: string): Token[] {
+    const tokens: Token[] = [];
+    const lines = output.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+        for (const text of lines[i].split(/\s+/)) {
+            if (text) {
+                tokens.push({ text, line: i + 1 });
+            }
+        }
+    }
+
+    return tokens;
+}
+
+function formatError(value: number): string {
+    return value.toExponential(2);
+}
+
+// ============================================================================
+// File Streams
+// ============================================================================
+
+/**
+ * Compare two files byte by byte
+ */
+async function filesEqual(actualPath: string, expectedPath: string): Promise<boolean> {
+    const [actualStats, expectedStats] = await Promise.all([fs.promises.stat(actualPath), fs.promises.stat(expectedPath)]);
+    if (actualStats.size !== expectedStats.size) {
+        return false;
+    }
+
+    const [actual, expected] = await Promise.all([fs.promises.open(actualPath, 'r'), fs.promises.open(expectedPath, 'r')]);
+    try {
+        const actualBuffer = Buffer.alloc(COMPARE_CHUNK_SIZE);
+        const expectedBuffer = Buffer.alloc(COMPARE_CHUNK_SIZE);
+
+        for (let position = 0; position < actualStats.size; position += COMPARE_CHUNK_SIZE) {
+            const [a, e] = await Promise.all([
+                actual.read(actualBuffer, 0, COMPARE_CHUNK_SIZE, position),
+                expected.read(expectedBuffer, 0, COMPARE_CHUNK_SIZE, position),
+            ]);
+            if (!actualBuffer.subarray(0, a.bytesRead).equals(expectedBuffer.subarray(0, e.bytesRead))) {
+                return false;
+            }
+        }
+        return true;
+    } finally {
+        await Promise.all([actual.close(), expected.close()]);
+    }
+}
+
+/**
+ * Lines of a file, split at '\n' like output.split('\n')
+ */
+async function* readLines(filePath: string): AsyncGenerator<string> {
+    // Parts of a line that spans several chunks
+    let pending: string[] = [];
+
+    for await (const chunk of fs.createReadStream(filePath, { encoding: 'utf-8' })) {
+        const parts = (chunk as string).split('\n');
+        if (parts.length === 1) {
+            pending.push(parts[0]);
+            continue;
+        }
+
+        yield pending.join('') + parts[0];
+        yield* parts.slice(1, -1);
+        pending = [parts[parts.length - 1]];
+    }
+
+    yield pending.join('');
+}
+
+/**
+ * Lines with trailing whitespace removed, without trailing blank lines (see normalizeOutput)
+ */
+async function* readTrimmedLines(filePath: string): AsyncGenerator<string> {
+    let blankLines = 0;
+
+    for await (const line of readLines(filePath)) {
+        const trimmed = line.trimEnd();
+        if (trimmed === '') {
+            // Only emitted if a non-blank line follows
+            blankLines++;
+            continue;
+        }
+        for (; blankLines > 0; blankLines--) {
+            yield '';
+        }
+        yield trimmed;
+    }
+}
+
+/**
+ * Whitespace-separated tokens with their line numbers (see tokenize)
+ */
+async function* readTokens(filePath: string): AsyncGenerator<Token> {
+    let line = 0;
+
+    for await (const text of readLines(filePath)) {
+        line++;
+        for (const token of text.split(/\s+/)) {
+            if (token) {
+                yield { text: token, line };
+            }
+        }
+    }
+}
+
+/**
+ * Whether two streams contain equal items
+ */
+async function sequencesEqual<T>(
+    actual: AsyncIterable<T>,
+    expected: AsyncIterable<T>,
+    equals: (a: T, b: T) => boolean
+): Promise<boolean> {
+    for await (const [a, e] of zip(actual, expected)) {
+        if (a === undefined || e === undefined || !equals(a, e)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Pairs of items at the same position; the shorter stream is padded with undefined
+ */
+async function* zip<T>(actual: AsyncIterable<T>, expected: AsyncIterable<T>): AsyncGenerator<[T | undefined, T | undefined]> {
+    const actualIterator = actual[Symbol.asyncIterator]();
+    const expectedIterator = expected[Symbol.asyncIterator]();
+
+    try {
+        while (true) {
+            const [a, e] = await Promise.all([actualIterator.next(), expectedIterator.next()]);
+            if (a.done && e.done) {
+                return;
+            }
+            yield [a.done ? undefined : a.value, e.done ? undefined : e.value];
+        }
+    } finally {
+        // Close the files when the comparison stops early
+        await Promise.all([actualIterator.return?.(), expectedIterator.return?.()]);
+    }
+}
@@ -0,0 +1,259 @@
+/**
+ * FastJudge Precompiled Headers
+ * Builds and caches precompiled headers for gcc and clang:
+ *
+ *   <outputDir>/@pch/<key>/fastjudge-pch.h       #include <bits/stdc++.h>
+ *   <outputDir>/@pch/<key>/fastjudge-pch.h.gch   the same, precompiled
+ *
+ * Every compile gets "-include <wrapper>", and the compiler picks up the
+ * precompiled file next to it. The key covers the compiler, its version and
+ * all flags, because a precompiled header is only valid for the exact flags it
+ * was built with; changing flags selects (and builds) another one. If the
+ * precompiled file is missing or unusable, the wrapper is simply parsed.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Dirent } from 'fs';
+import { killProcessTree, spawnProcessTree } from './process-tree';
+
+/** Precompiled headers go to <outputDir>/@pch/<key> */
+const PCH_OUTPUT_SUBDIR = '@pch';
+const WRAPPER_FILE = 'fastjudge-pch.h';
+const METADATA_FILE = 'fastjudge-pch.json';
+
+/** Number of precompiled headers kept (each can take hundreds of MB) */
+const MAX_PRECOMPILED_HEADERS = 4;
+
+/** A precompiled header for one compiler, version and set of flags */
+export interface PrecompiledHeader {
+    header: string;       // Header as written in #include <...>
+    command: string;      // Compiler
+    flags: string[];      // Flags of the compiles using it
+    wrapperPath: string;  // Passed to the compiler with -include
+    pchPath: string;      // Precompiled wrapper
+}
+
+/** Outcome of making sure a precompiled header exists */
+export interface PrecompiledHeaderStatus {
+    ready: boolean;        // The precompiled file exists
+    built: boolean;        // It was built by this call
+    buildTimeMs: number;   // Time its build took (the parsing a compile saves by using it)
+    error?: string;
+    timedOut?: boolean;    // The build exceeded the compile time limit
+    aborted?: boolean;     // The compile was cancelled during the build
+    wrapperMissing?: boolean;  // The wrapper could not be written, so it must not be -included
+}
+
+/** How long a precompiled header build may take, and how to cancel it */
+export interface PrecompiledHeaderBuildOptions {
+    signal?: AbortSignal;
+    timeLimitMs?: number;  // 0 or undefined = no limit
+}
+
+interface PrecompiledHeaderMetadata {
+    buildTimeMs: number;
+}
+
+export class PrecompiledHeaderService {
+    private pchRoot: string;
+    /** Builds in progress or finished this session, by precompiled file */
+    private builds = new Map<string, Promise<PrecompiledHeaderStatus>>();
+
+    constructor(outputDir: string) {
+        this.pchRoot = path.join(outputDir, PCH_OUTPUT_SUBDIR);
+    }
+
+    /**
+     * Locate the precompiled header for a compiler, its version and flags
+     */
+    resolve(header: string, command: string, flags: string[], toolchainVersion: string): PrecompiledHeader {
+        const key = crypto.createHash('md5')
+            .update(JSON.stringify([header, command, toolchainVersion, ...flags]))
+            .digest('hex');
+        const wrapperPath = path.join(this.pchRoot, key, WRAPPER_FILE);
+        const pchExt = /clang/i.test(path.basename(command)) ? '.pch' : '.gch';
+
+        return { header, command, flags, wrapperPath, pchPath: wrapperPath + pchExt };
+    }
+
+    /**
+     * Build the precompiled header unless it already exists
+     * (the wrapper header is written first, so -include works even if the build fails).
+     * Never throws: on any error the status is not ready and the compile parses the header.
+     */
+    async ensure(pch: PrecompiledHeader, options: PrecompiledHeaderBuildOptions = {}): Promise<PrecompiledHeaderStatus> {
+        const previous = this.builds.get(pch.pchPath);
+        if (previous) {
+            // Failed builds are not retried; deleted precompiled files and stopped builds are rebuilt
+            const status = await previous;
+            const stopped = status.timedOut || status.aborted;
+            if (!stopped && (!status.ready || await exists(pch.pchPath))) {
+                return { ...status, built: false };
+            }
+        }
+
+        const build = this.build(pch, options);
+        this.builds.set(pch.pchPath, build);
+        return build;
+    }
+
+    private async build(pch: PrecompiledHeader, options: PrecompiledHeaderBuildOptions): Promise<PrecompiledHeaderStatus> {
+        const pchDir = path.dirname(pch.wrapperPath);
+        const metadataPath = path.join(pchDir, METADATA_FILE);
+
+        // Built earlier, possibly by another window
+        try {
+            const metadata = JSON.parse(await fs.readFile(metadataPath, 'utf-8')) as PrecompiledHeaderMetadata;
+            await this.touch(pchDir);
+            if (await exists(pch.pchPath)) {
+                return { ready: true, built: false, buildTimeMs: metadata.buildTimeMs };
+            }
+        } catch {
+            // Not built yet
+        }
+
+        try {
+            await fs.mkdir(pchDir, { recursive: true });
+            await fs.writeFile(pch.wrapperPath, `#include <${pch.header}>\n`, 'utf-8');
+        } catch (err) {
+            return { ready: false, built: false, buildTimeMs: 0, error: (err as Error).message, wrapperMissing: true };
+        }
+
+        const language = /\+\+/.test(path.basename(pch.command)) ? 'c++-header' : 'c-header';
+        const tempPath = `${pch.pchPath}.${process.pid}.tmp`;
+        const startTime = Date.now();
+
+        const run = await runHeaderCompiler(
+            pch.command,
+            [...pch.flags, '-x', language, pch.wrapperPath, '-o', tempPath],
+            options
+        );
+        const buildTimeMs = Date.now() - startTime;
+
+        if (run.error) {
+            await fs.rm(tempPath, { force: true }).catch(() => undefined);
+            return { ready: false, built: false, buildTimeMs, ...run };
+        }
+
+        try {
+            await fs.rename(tempPath, pch.pchPath);
+        } catch (err) {
+            await fs.rm(tempPath, { force: true }).catch(() => undefined);
+            return { ready: false, built: false, buildTimeMs, error: (err as Error).message };
+        }
+
+        // Without the metadata, other windows build it again
+        const metadata: PrecompiledHeaderMetadata = { buildTimeMs };
+        await fs.writeFile(metadataPath, JSON.stringify(metadata), 'utf-8').catch(() => undefined);
+        await this.removeStale(pchDir);
+
+        return { ready: true, built: true, buildTimeMs };
+    }
+
+    /**
+     * Keep only the most recently used precompiled headers
+     * (best effort: a failed cleanup never fails the build)
+     */
+    private async removeStale(keepDir: string): Promise<void> {
+        let entries: Dirent[];
+        try {
+            entries = await fs.readdir(this.pchRoot, { withFileTypes: true });
+        } catch {
+            return;
+        }
+
+        // Directories removed meanwhile (e.g. by another window) are skipped
+        const dirs = await Promise.all(entries
+            .filter(entry => entry.isDirectory())
+            .map(async (entry) => {
+                const dir = path.join(this.pchRoot, entry.name);
+                const stats = await fs.stat(dir).catch(() => undefined);
+                return { dir, usedAt: stats?.mtimeMs ?? 0 };
+            }));
+
+        const stale = dirs
+            .filter(({ dir }) => dir !== keepDir)
+            .sort((a, b) => b.usedAt - a.usedAt)
+            .slice(MAX_PRECOMPILED_HEADERS - 1);
+
+        for (const { dir } of stale) {
+            this.builds.delete(path.join(dir, WRAPPER_FILE) + '.gch');
+            this.builds.delete(path.join(dir, WRAPPER_FILE) + '.pch');
+            await fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+        }
+    }
+
+    private async touch(dir: string): Promise<void> {
+        const now = new Date();
+        await fs.utimes(dir, now, now).catch(() => undefined);
+    }
+}
+
+/**
+ * Run the compiler on the wrapper header in its own process group, so that
+ * Stop and the compile time limit kill cc1plus along with the driver
+ */
+function runHeaderCompiler(
+    command: string,
+    args: string[],
+    options: PrecompiledHeaderBuildOptions
+): Promise<Pick<PrecompiledHeaderStatus, 'error' | 'timedOut' | 'aborted'>> {
+    const { signal, timeLimitMs } = options;
+
+    return new Promise((resolve) => {
+        if (signal?.aborted) {
+            resolve({ error: 'Compilation cancelled', aborted: true });
+            return;
+        }
+
+        const proc = spawnProcessTree(command, args, { shell: false });
+
+        let stopReason: 'timedOut' | 'aborted' | undefined;
+        const stop = (reason: 'timedOut' | 'aborted') => {
+            if (!stopReason) {
+                stopReason = reason;
+                killProcessTree(proc);
+            }
+        };
+
+        const timer = timeLimitMs && timeLimitMs > 0 ? setTimeout(() => stop('timedOut'), timeLimitMs) : undefined;
+        const onAbort = () => stop('aborted');
+        signal?.addEventListener('abort', onAbort);
+        const cleanup = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        };
+
+        let stderr = '';
+        proc.stderr?.on('data', (data) => {
+            stderr += data.toString();
+        });
+
+        proc.on('error', (err) => {
+            cleanup();
+            resolve({ error: err.message });
+        });
+
+        proc.on('close', (code) => {
+            cleanup();
+            if (stopReason === 'aborted') {
+                resolve({ error: 'Compilation cancelled', aborted: true });
+            } else if (stopReason === 'timedOut') {
+                resolve({ error: 'Precompiled header build timed out', timedOut: true });
+            } else {
+                resolve(code === 0 ? {} : { error: stderr || `Exited with code ${code}` });
+            }
+        });
+    });
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,247 @@
+/**
+ * Process Monitor
+ * Samples resource usage of a running process tree from /proc (Linux only).
+ *
+ * Memory is the resident set size (VmRSS) summed over the process and its
+ * descendants; the peak also considers the root's high-water mark (VmHWM),
+ * which catches allocations made between two samples.
+ *
+ * CPU time is user + system time (utime + stime) summed over the process and
+ * every descendant seen while sampling.
+ */
+
+import * as fs from 'fs';
+
+/** Sampling interval in milliseconds */
+const SAMPLE_INTERVAL_MS = 10;
+
+/** Kernel clock ticks per second (USER_HZ, 100 on all mainstream Linux builds) */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+export interface ProcessMonitorOptions {
+    /** Memory limit in KB (0 or undefined = no limit) */
+    memoryLimitKb?: number;
+    /** Called once when the memory limit is exceeded */
+    onMemoryLimitExceeded?: () => void;
+    /** CPU time limit in milliseconds (0 or undefined = no limit) */
+    cpuTimeLimitMs?: number;
+    /** Called once when the CPU time limit is exceeded */
+    onCpuTimeLimitExceeded?: () => void;
+}
+
+export class ProcessMonitor {
+    private pid: number;
+    private options: ProcessMonitorOptions;
+    private timer: NodeJS.Timeout | undefined;
+    private peakMemoryKb = 0;
+    private memoryLimitExceeded = false;
+    private cpuTicks = new Map<number, number>();  // pid -> latest utime + stime
+    private cpuTimeLimitExceeded = false;
+    private sampled = false;
+    private hostExe: string | undefined;
+
+    constructor(pid: number, options: ProcessMonitorOptions = {}) {
+        this.pid = pid;
+        this.options = options;
+    }
+
+    /**
+     * Whether resource usage can be measured on this platform
+     */
+    static isSupported(): boolean {
+        return process.platform === 'linux';
+    }
+
+    /**
+     * Start sampling
+     */
+    start(): void {
+        if (!ProcessMonitor.isSupported() || this.timer) {
+            return;
+        }
+        this.hostExe = readLink('/proc/self/exe');
+        this.sample();
+        this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+    }
+
+    /**
+     * Take a final sample and stop sampling
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+            this.sample();
+        }
+    }
+
+    /**
+     * Peak memory usage in KB (undefined if nothing could be measured)
+     */
+    getPeakMemoryKb(): number | undefined {
+        return this.sampled ? this.peakMemoryKb : undefined;
+    }
+
+    /**
+     * Whether the memory limit was exceeded at any sample
+     */
+    isMemoryLimitExceeded(): boolean {
+        return this.memoryLimitExceeded;
+    }
+
+    /**
+     * CPU time (user + system) in milliseconds (undefined if nothing could be measured)
+     */
+    getCpuTimeMs(): number | undefined {
+        if (!this.sampled) {
+            return undefined;
+        }
+        let ticks = 0;
+        for (const value of this.cpuTicks.values()) {
+            ticks += value;
+        }
+        return ticks * 1000 / CLOCK_TICKS_PER_SECOND;
+    }
+
+    /**
+     * Whether the CPU time limit was exceeded at any sample
+     */
+    isCpuTimeLimitExceeded(): boolean {
+        return this.cpuTimeLimitExceeded;
+    }
+
+    // ===========================================================================
+    // Sampling
+    // ===========================================================================
+
+    private sample(): void {
+        const root = readStatus(this.pid);
+        if (!root) {
+            return;  // Process already exited
+        }
+
+        // Between fork and exec the child is still a copy of the host process
+        if (this.hostExe && readLink(`/proc/${this.pid}/exe`) === this.hostExe) {
+            return;
+        }
+
+        let totalKb = root.rssKb;
+        this.sampleCpu(this.pid);
+        for (const childPid of getDescendants(this.pid)) {
+            totalKb += readStatus(childPid)?.rssKb ?? 0;
+            this.sampleCpu(childPid);
+        }
+
+        this.sampled = true;
+        this.peakMemoryKb = Math.max(this.peakMemoryKb, totalKb, root.hwmKb);
+
+        const limitKb = this.options.memoryLimitKb;
+        if (limitKb && this.peakMemoryKb > limitKb && !this.memoryLimitExceeded) {
+            this.memoryLimitExceeded = true;
+            this.options.onMemoryLimitExceeded?.();
+        }
+
+        const cpuLimitMs = this.options.cpuTimeLimitMs;
+        if (cpuLimitMs && this.getCpuTimeMs()! > cpuLimitMs && !this.cpuTimeLimitExceeded) {
+            this.cpuTimeLimitExceeded = true;
+            this.options.onCpuTimeLimitExceeded?.();
+        }
+    }
+
+    private sampleCpu(pid: number): void {
+        const ticks = readCpuTicks(pid);
+        if (ticks !== undefined) {
+            // Keep the last value of processes that have already exited
+            this.cpuTicks.set(pid, Math.max(this.cpuTicks.get(pid) ?? 0, ticks));
+        }
+    }
+}
+
+// ============================================================================
+// /proc Helpers
+// ============================================================================
+
+/**
+ * Read current and peak resident memory of a process
+ */
+function readStatus(pid: number): { rssKb: number; hwmKb: number } | undefined {
+    let content: string;
+    try {
+        content = fs.readFileSync(`/proc/${pid}/status`, 'utf-8');
+    } catch {
+        return undefined;
+    }
+
+    const rss = /^VmRSS:\s+(\d+) kB/m.exec(content);
+    const hwm = /^VmHWM:\s+(\d+) kB/m.exec(content);
+    if (!rss) {
+        return undefined;  // Zombie or kernel thread
+    }
+
+    return {
+        rssKb: Number(rss[1]),
+        hwmKb: hwm ? Number(hwm[1]) : 0,
+    };
+}
+
+/**
+ * Read user + system CPU time of a process in clock ticks
+ */
+function readCpuTicks(pid: number): number | undefined {
+    let content: string;
+    try {
+        content = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    } catch {
+        return undefined;
+    }
+
+    // The command name (field 2) may contain spaces; fields after it are space-separated
+    const fields = content.slice(content.lastIndexOf(')') + 2).split(' ');
+    const utime = Number(fields[11]);
+    const stime = Number(fields[12]);
+    return Number.isFinite(utime) && Number.isFinite(stime) ? utime + stime : undefined;
+}
+
+/**
+ * List all descendants of a process (children of every thread, recursively)
+ */
+function getDescendants(pid: number): number[] {
+    const descendants: number[] = [];
+    const queue = [pid];
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        let tids: string[];
+        try {
+            tids = fs.readdirSync(`/proc/${current}/task`);
+        } catch {
+            continue;
+        }
+
+        for (const tid of tids) {
+            let children: string;
+            try {
+                children = fs.readFileSync(`/proc/${current}/task/${tid}/children`, 'utf-8');
+            } catch {
+                continue;
+            }
+            for (const child of children.split(' ')) {
+                if (child.trim()) {
+                    const childPid = Number(child);
+                    descendants.push(childPid);
+                    queue.push(childPid);
+                }
+            }
+        }
+    }
+
+    return descendants;
+}
+
+function readLink(linkPath: string): string | undefined {
+    try {
+        return fs.readlinkSync(linkPath);
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * Process Trees
+ * Programs and compilers are started as leaders of their own process group
+ * (Unix), so everything they start — interpreters, forked workers, shell
+ * pipelines — is killed with a single signal to the group. Node's timeout and
+ * AbortSignal handling only kill the direct child, which leaves grandchildren
+ * running and holding the output pipes open.
+ *
+ * On Windows, taskkill /t kills the tree by parent-child relationships instead.
+ *
+ * Processes that leave the group (setsid, daemonizing) are out of reach; with
+ * the sandbox's bubblewrap isolation they still die with the PID namespace.
+ */
+
+import * as fs from 'fs';
+import { ChildProcess, spawn, spawnSync, SpawnOptions } from 'child_process';
+
+/** Time limit for listing processes with ps (systems without /proc) */
+const PS_TIMEOUT_MS = 2000;
+
+/** Process groups started and not yet closed, killed when the extension deactivates */
+const running = new Set<ChildProcess>();
+
+/**
+ * Spawn a process as the leader of a new process group
+ */
+export function spawnProcessTree(command: string, args: string[], options: SpawnOptions): ChildProcess {
+    const proc = spawn(command, args, { ...options, detached: process.platform !== 'win32' });
+
+    running.add(proc);
+    const forget = () => running.delete(proc);
+    proc.on('close', forget);
+    proc.on('error', forget);
+    return proc;
+}
+
+/**
+ * Kill a process and every process it started
+ */
+export function killProcessTree(proc: ChildProcess): void {
+    try {
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', String(proc.pid), '/f', '/t'], { shell: false });
+        } else {
+            process.kill(-proc.pid!, 'SIGKILL');
+        }
+    } catch {
+        // Every process of the group has exited, or the process was not spawned by spawnProcessTree
+        try {
+            proc.kill('SIGKILL');
+        } catch {
+            // Ignore
+        }
+    }
+}
+
+/**
+ * Kill the processes still running in the group of a process that has exited
+ * (background jobs, forked workers)
+ * @returns the number of processes killed
+ */
+export function killOrphans(proc: ChildProcess): number {
+    if (process.platform === 'win32' || proc.pid === undefined) {
+        return 0;
+    }
+
+    const orphans = listProcessGroup(proc.pid);
+    if (orphans.length > 0) {
+        try {
+            process.kill(-proc.pid, 'SIGKILL');
+        } catch {
+            // Exited in the meantime
+        }
+    }
+    return orphans.length;
+}
+
+/**
+ * Kill every process tree that is still running (on extension deactivation)
+ */
+export function killAllProcessTrees(): void {
+    for (const proc of running) {
+        killProcessTree(proc);
+    }
+    running.clear();
+}
+
+/**
+ * Live (non-zombie) processes in a process group
+ */
+function listProcessGroup(pgid: number): number[] {
+    if (process.platform === 'linux') {
+        return fs.readdirSync('/proc')
+            .filter(entry => /^\d+$/.test(entry))
+            .map(Number)
+            .filter(pid => readProcessGroup(pid) === pgid);
+    }
+
+    const ps = spawnSync('ps', ['-A', '-o', 'pid=,pgid=,stat='], { encoding: 'utf-8', timeout: PS_TIMEOUT_MS });
+    return (ps.stdout ?? '')
+        .split('\n')
+        .map(line => line.trim().split(/\s+/))
+        .filter(([, group, stat]) => Number(group) === pgid && !stat?.startsWith('Z'))
+        .map(([pid]) => Number(pid));
+}
+
+/**
+ * Process group of a live process from /proc/<pid>/stat (undefined for zombies and exited processes)
+ */
+function readProcessGroup(pid: number): number | undefined {
+    let content: string;
+    try {
+        content = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    } catch {
+        return undefined;
+    }
+
+    // The command name (field 2) may contain spaces; fields after it are: state ppid pgrp ...
+    const [state, , pgrp] = content.slice(content.lastIndexOf(')') + 2).split(' ');
+    return state === 'Z' ? undefined : Number(pgrp);
+}
@@ -0,0 +1,68 @@
+/**
+ * FastJudge Reference Runner
+ * Runs a reference solution over test inputs to produce their expected outputs.
+ * Tests on which the reference itself fails (RE/TLE) are reported instead of
+ * returning its partial output.
+ */
+
+import { ReferenceOutput, TestCaseWithData } from '../types';
+import { ExecutorService } from './executor-service';
+import { JudgeService } from './judge-service';
+import { describeProgramFailure } from './signal-parser';
+
+/** Time limit for a single reference run in milliseconds */
+const REFERENCE_TIME_LIMIT_MS = 10000;
+
+export class ReferenceRunner {
+    private judge: JudgeService;
+    private executor: ExecutorService;
+
+    constructor(judge: JudgeService, executor?: ExecutorService) {
+        this.judge = judge;
+        if (!executor) {
+            executor = new ExecutorService(REFERENCE_TIME_LIMIT_MS);
+            executor.setSandbox(judge.getSandbox());
+            executor.setOutputLimit(judge.getOutputLimit());
+        }
+        this.executor = executor;
+    }
+
+    /**
+     * Compile the reference solution and run it on every test case.
+     * Stops early (without output for the remaining tests) when aborted.
+     */
+    async run(
+        referencePath: string,
+        testCases: TestCaseWithData[],
+        signal?: AbortSignal
+    ): Promise<{ outputs: ReferenceOutput[]; error?: string }> {
+        const compiled = await this.judge.compileProgram(referencePath, signal);
+        if (compiled.aborted) {
+            return { outputs: [] };
+        }
+        if (!compiled.program) {
+            return { outputs: [], error: `Reference solution compilation failed: ${compiled.error}` };
+        }
+
+        const reference = compiled.program;
+        const outputs: ReferenceOutput[] = [];
+
+        for (const testCase of testCases) {
+            const result = testCase.inputPath
+                ? await this.executor.executeWithFile(
+                    reference.sourcePath, reference.outputDir, testCase.inputPath, reference.language, signal)
+                : await this.executor.execute(
+                    reference.sourcePath, reference.outputDir, testCase.input, reference.language, signal);
+            if (result.aborted) {
+                break;
+            }
+
+            const error = describeProgramFailure('Reference solution', result, this.executor.getTimeLimit());
+            outputs.push(error
+                ? { testCaseId: testCase.id, error }
+                : { testCaseId: testCase.id, output: result.stdout });
+        }
+
+        return { outputs };
+    }
+}
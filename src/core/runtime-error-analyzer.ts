@@ -0,0 +1,216 @@
+/**
+ * Runtime Error Analyzer
+ * Extracts the uncaught exception (or panic) and the user's source line from
+ * the stderr of programs that crashed with a plain non-zero exit code.
+ * Each language's runtime reports errors differently, so the analyzer is
+ * chosen by the language's runtimeErrorFormat.
+ *
+ * Java:
+ *   Exception in thread "main" java.lang.ArrayIndexOutOfBoundsException: Index 5 out of bounds for length 5
+ *       at Main.main(Main.java:7)
+ *
+ * Python (innermost frame last):
+ *   Traceback (most recent call last):
+ *     File "/path/main.py", line 12, in f
+ *   RecursionError: maximum recursion depth exceeded
+ *
+ * Node.js:
+ *   RangeError: Maximum call stack size exceeded
+ *       at f (/path/main.js:2:15)
+ *
+ * Rust (paths are relative to the compiler's working directory):
+ *   thread 'main' panicked at main.rs:5:13:
+ *   index out of bounds: the len is 3 but the index is 5
+ */
+
+import * as path from 'path';
+import { ExceptionReport, RuntimeErrorFormat } from '../types';
+
+/** Parses one runtime's error output */
+export interface RuntimeErrorAnalyzer {
+    analyze(stderr: string, sourcePath: string): ExceptionReport | undefined;
+}
+
+interface SourceLocation {
+    file: string;
+    line: number;
+    column?: number;
+}
+
+/** Formats of languages that do not set runtimeErrorFormat, by language ID */
+export const DEFAULT_RUNTIME_ERROR_FORMATS: Record<string, RuntimeErrorFormat> = {
+    java: 'java',
+    python: 'python',
+    javascript: 'node',
+    typescript: 'node',
+    rust: 'rust',
+};
+
+const JAVA_EXCEPTION = /^Exception in thread "[^"]*" ([\w.$]+)(?::\s?(.*))?$/m;
+const JAVA_FRAME = /^\s+at (?:[\w.$]+\/)?([\w.$<>]+)\((\w[\w$]*\.java):(\d+)\)$/;
+const JAVA_LIBRARY_PACKAGE = /^(java|javax|jdk|sun|com\.sun)\./;
+
+const PYTHON_FRAME = /^\s*File "(.+)", line (\d+)/;
+const PYTHON_EXCEPTION = /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/;
+
+const NODE_EXCEPTION = /^([A-Za-z_$][\w$]*(?:Error|Exception))(?::\s?(.*))?$/;
+const NODE_FRAME = /^\s+at (?:.*? \()?(.+?):(\d+):(\d+)\)?$/;
+
+const RUST_PANIC = /^thread '[^']*' panicked at (?:'(.*)', )?(.+?):(\d+):(\d+):?$/m;
+const RUST_STACK_OVERFLOW = /^thread '[^']*' has overflowed its stack$/m;
+
+const javaAnalyzer: RuntimeErrorAnalyzer = {
+    analyze(stderr, sourcePath) {
+        const exception = JAVA_EXCEPTION.exec(stderr);
+        if (!exception) {
+            return undefined;
+        }
+
+        const [, type, message] = exception;
+        let location: SourceLocation | undefined;
+        for (const line of stderr.slice(exception.index).split('\n').slice(1)) {
+            const frame = JAVA_FRAME.exec(line);
+            if (!frame) {
+                // Frames without a file (e.g. "Native Method") are skipped; the stack trace ends at the first other line
+                if (!/^\s+at /.test(line)) {
+                    break;
+                }
+                continue;
+            }
+            // Innermost frame in the user's code (stack traces only name the file)
+            if (!JAVA_LIBRARY_PACKAGE.test(frame[1])) {
+                location = { file: path.join(path.dirname(sourcePath), frame[2]), line: Number(frame[3]) };
+                break;
+            }
+        }
+
+        return { type, message: message ?? '', ...location };
+    },
+};
+
+const pythonAnalyzer: RuntimeErrorAnalyzer = {
+    analyze(stderr, sourcePath) {
+        const lines = stderr.replace(/\r\n/g, '\n').split('\n');
+        const sourceDir = path.dirname(sourcePath);
+
+        // With chained exceptions, the last traceback is the one that ended the program
+        let start = lines.map(line => line.startsWith('Traceback (most recent call last):')).lastIndexOf(true);
+        if (start === -1) {
+            // Syntax errors in the main script are reported without a traceback
+            start = lines.findIndex(line => PYTHON_FRAME.test(line));
+            if (start === -1) {
+                return undefined;
+            }
+        }
+
+        let location: SourceLocation | undefined;
+        for (let i = start; i < lines.length; i++) {
+            const frame = PYTHON_FRAME.exec(lines[i]);
+            if (frame) {
+                // Innermost frame in the user's files (the last one wins)
+                const file = path.resolve(sourceDir, frame[1]);
+                if (isInside(file, sourceDir)) {
+                    location = { file, line: Number(frame[2]) };
+                }
+                continue;
+            }
+
+            const exception = lines[i].startsWith(' ') ? null : PYTHON_EXCEPTION.exec(lines[i]);
+            if (exception && i > start) {
+                return { type: exception[1], message: exception[2] ?? '', ...location };
+            }
+        }
+
+        return undefined;
+    },
+};
+
+const nodeAnalyzer: RuntimeErrorAnalyzer = {
+    analyze(stderr, sourcePath) {
+        const lines = stderr.replace(/\r\n/g, '\n').split('\n');
+        const sourceDir = path.dirname(sourcePath);
+
+        const index = lines.findIndex(line => NODE_EXCEPTION.test(line));
+        if (index === -1) {
+            return undefined;
+        }
+
+        const [, type, message] = NODE_EXCEPTION.exec(lines[index])!;
+        let location: SourceLocation | undefined;
+        for (const line of lines.slice(index + 1)) {
+            const frame = NODE_FRAME.exec(line);
+            if (!frame) {
+                break;
+            }
+            // Innermost frame in the user's files (not node:internal or node_modules)
+            const file = frame[1].replace(/^file:\/\//, '');
+            if (path.isAbsolute(file) && isInside(file, sourceDir) && !file.includes(`${path.sep}node_modules${path.sep}`)) {
+                location = { file, line: Number(frame[2]), column: Number(frame[3]) };
+                break;
+            }
+        }
+
+        return { type, message: message ?? '', ...location };
+    },
+};
+
+const rustAnalyzer: RuntimeErrorAnalyzer = {
+    analyze(stderr, sourcePath) {
+        const panic = RUST_PANIC.exec(stderr);
+        if (panic) {
+            const [, oldStyleMessage, file, line, column] = panic;
+            // Since Rust 1.73 the message follows on the next line
+            const message = oldStyleMessage
+                ?? stderr.slice(panic.index + panic[0].length).replace(/^\r?\n/, '').split(/\r?\n/)[0];
+            return {
+                type: 'panic',
+                message,
+                file: path.resolve(path.dirname(sourcePath), file),
+                line: Number(line),
+                column: Number(column),
+            };
+        }
+
+        if (RUST_STACK_OVERFLOW.test(stderr)) {
+            return { type: 'stack overflow', message: 'the main thread overflowed its stack (deep recursion)' };
+        }
+
+        return undefined;
+    },
+};
+
+const ANALYZERS: Record<RuntimeErrorFormat, RuntimeErrorAnalyzer> = {
+    java: javaAnalyzer,
+    python: pythonAnalyzer,
+    node: nodeAnalyzer,
+    rust: rustAnalyzer,
+};
+
+/**
+ * Parse the uncaught exception in a crashed program's stderr
+ */
+export function analyzeRuntimeError(
+    stderr: string,
+    sourcePath: string,
+    format: RuntimeErrorFormat | undefined
+): ExceptionReport | undefined {
+    return format ? ANALYZERS[format]?.analyze(stderr, sourcePath) : undefined;
+}
+
+/**
+ * Format an exception for the panel, e.g. "RecursionError: maximum recursion depth exceeded at main.py:12"
+ */
+export function formatExceptionReport(report: ExceptionReport): string {
+    // Java class names are shown without their package
+    const type = report.type.split('.').pop()!;
+    const message = report.message ? `${type}: ${report.message}` : type;
+    const location = report.file && report.line
+        ? ` at ${path.basename(report.file)}:${report.line}`
+        : '';
+    return `${message}${location}`;
+}
+
+function isInside(file: string, dir: string): boolean {
+    const relative = path.relative(dir, file);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
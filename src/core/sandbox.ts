@@ -0,0 +1,147 @@
+/**
+ * FastJudge Sandbox (Linux only)
+ * Runs judged programs with resource limits in a throwaway working directory:
+ *
+ *   [bwrap <isolation> --] prlimit --stack=... --nproc=... --fsize=... --nofile=... -- <program> <args>
+ *
+ * prlimit (util-linux) applies the rlimits and then execs the program, so
+ * without bubblewrap the spawned process is the program itself. With
+ * bubblewrap installed (and isolation on), the program additionally runs
+ * without network access and with the whole filesystem read-only except its
+ * working directory.
+ *
+ * RLIMIT_NPROC counts every process and thread of the user, so the limit is
+ * set to the number already running plus maxProcesses.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SandboxOptions } from '../types';
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_SANDBOX_OPTIONS: SandboxOptions = {
+    enabled: false,
+    stackSizeMb: 256,
+    maxProcesses: 256,
+    maxFileSizeMb: 64,
+    maxOpenFiles: 64,
+    isolate: true,
+};
+
+/** A program launch prepared for the sandbox */
+export interface SandboxedCommand {
+    command: string;
+    args: string[];
+    cwd: string;
+    /** Remove the temporary working directory */
+    dispose(): void;
+}
+
+/** Executables found on PATH, looked up once per session */
+const executables = new Map<string, string | undefined>();
+
+/**
+ * Wrap a program in the sandbox and create its working directory
+ * @throws if the sandbox is not supported on this system
+ */
+export function createSandboxedCommand(command: string, args: string[], options: SandboxOptions): SandboxedCommand {
+    const prlimit = process.platform === 'linux' ? findExecutable('prlimit') : undefined;
+    if (!prlimit) {
+        throw new Error('The sandbox needs Linux with prlimit (util-linux) installed');
+    }
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fastjudge-run-'));
+    const limited = [prlimit, ...getLimitArgs(options), '--', command, ...args];
+    const bwrap = options.isolate ? findExecutable('bwrap') : undefined;
+
+    const wrapped = bwrap
+        ? [
+            bwrap,
+            '--ro-bind', '/', '/',
+            '--dev', '/dev',
+            '--proc', '/proc',
+            '--bind', workDir, workDir,
+            '--unshare-all',
+            '--die-with-parent',
+            '--new-session',
+            '--chdir', workDir,
+            '--setenv', 'TMPDIR', workDir,
+            '--',
+            ...limited,
+        ]
+        : limited;
+
+    return {
+        command: wrapped[0],
+        args: wrapped.slice(1),
+        cwd: workDir,
+        dispose: () => {
+            try {
+                fs.rmSync(workDir, { recursive: true, force: true });
+            } catch {
+                // Best effort: the system clears its temporary directory eventually
+            }
+        },
+    };
+}
+
+/**
+ * prlimit arguments for the configured limits (0 = no limit, or the system default for open files)
+ */
+function getLimitArgs(options: SandboxOptions): string[] {
+    const limitArgs = [`--stack=${options.stackSizeMb > 0 ? options.stackSizeMb * MB : 'unlimited'}`];
+
+    if (options.maxProcesses > 0) {
+        limitArgs.push(`--nproc=${countUserTasks() + options.maxProcesses}`);
+    }
+    if (options.maxFileSizeMb > 0) {
+        limitArgs.push(`--fsize=${options.maxFileSizeMb * MB}`);
+    }
+    if (options.maxOpenFiles > 0) {
+        limitArgs.push(`--nofile=${options.maxOpenFiles}`);
+    }
+    return limitArgs;
+}
+
+/**
+ * Number of processes and threads running as the current user (what RLIMIT_NPROC counts)
+ */
+function countUserTasks(): number {
+    const uid = process.getuid?.();
+    let count = 0;
+
+    for (const entry of fs.readdirSync('/proc')) {
+        if (!/^\d+$/.test(entry)) {
+            continue;
+        }
+        try {
+            if (fs.statSync(`/proc/${entry}`).uid === uid) {
+                count += fs.readdirSync(`/proc/${entry}/task`).length;
+            }
+        } catch {
+            // Exited while counting
+        }
+    }
+    return count;
+}
+
+function findExecutable(name: string): string | undefined {
+    if (!executables.has(name)) {
+        const found = (process.env.PATH ?? '')
+            .split(path.delimiter)
+            .filter(dir => dir.length > 0)
+            .map(dir => path.join(dir, name))
+            .find(candidate => {
+                try {
+                    fs.accessSync(candidate, fs.constants.X_OK);
+                    return true;
+                } catch {
+                    return false;
+                }
+            });
+        executables.set(name, found);
+    }
+    return executables.get(name);
+}
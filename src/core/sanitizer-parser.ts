@@ -0,0 +1,120 @@
+/**
+ * Sanitizer Report Parser
+ * Extracts the error kind and faulting source location from the stderr of
+ * programs built with -fsanitize=address,undefined.
+ *
+ * AddressSanitizer:
+ *   ==123==ERROR: AddressSanitizer: heap-buffer-overflow on address 0x...
+ *       #0 0x55d... in main /path/main.cpp:42
+ *   SUMMARY: AddressSanitizer: heap-buffer-overflow /path/main.cpp:42 in main
+ *
+ * UndefinedBehaviorSanitizer (paths are relative to the compiler's working directory):
+ *   main.cpp:42:10: runtime error: signed integer overflow: 2147483647 + 1 cannot be represented in type 'int'
+ */
+
+import * as path from 'path';
+import { SanitizerReport } from '../types';
+
+const ASAN_ERROR = /ERROR: (\w+Sanitizer): (\S+)(.*)$/m;
+const ASAN_SUMMARY = /^SUMMARY: (\w+Sanitizer): (\S+)(?: (\S+?):(\d+)(?::(\d+))?)?/m;
+const STACK_FRAME = /^\s*#\d+ 0x[0-9a-f]+ in .*? (\S+?):(\d+)(?::(\d+))?$/;
+const UBSAN_ERROR = /^(.+?):(\d+):(\d+): runtime error: (.+)$/m;
+
+interface SourceLocation {
+    file: string;
+    line: number;
+    column?: number;
+}
+
+/**
+ * Parse the first sanitizer report in a program's stderr.
+ * Relative paths are resolved against the source file's directory, and the
+ * stack frame in the judged source file is preferred over the summary's
+ * location, which may point into a library header.
+ */
+export function parseSanitizerReport(stderr: string, sourcePath: string): SanitizerReport | undefined {
+    const sourceDir = path.dirname(sourcePath);
+
+    const asan = ASAN_ERROR.exec(stderr);
+    if (asan) {
+        const [, sanitizer, kind, rest] = asan;
+        const report: SanitizerReport = {
+            sanitizer,
+            kind: kind.replace(/:$/, ''),
+            message: `${kind}${rest}`.trim(),
+        };
+
+        const location = findUserFrame(stderr.slice(asan.index), sourcePath) ?? parseSummaryLocation(stderr);
+        return location ? { ...report, ...resolveLocation(location, sourceDir) } : report;
+    }
+
+    const ubsan = UBSAN_ERROR.exec(stderr);
+    if (ubsan) {
+        const [, file, line, column, message] = ubsan;
+        const colon = message.indexOf(':');
+        return {
+            sanitizer: 'UndefinedBehaviorSanitizer',
+            kind: colon > 0 ? message.slice(0, colon) : message,
+            message,
+            ...resolveLocation({ file, line: Number(line), column: Number(column) }, sourceDir),
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * Format a report for the panel, e.g. "heap-buffer-overflow at main.cpp:42"
+ */
+export function formatSanitizerReport(report: SanitizerReport): string {
+    const location = report.file && report.line
+        ? ` at ${path.basename(report.file)}:${report.line}`
+        : '';
+    return `${report.kind}${location} (${report.sanitizer})`;
+}
+
+/**
+ * Find the topmost frame of the first stack trace that points into the judged source file
+ */
+function findUserFrame(report: string, sourcePath: string): SourceLocation | undefined {
+    const sourceName = path.basename(sourcePath);
+    let inStack = false;
+
+    for (const line of report.split('\n')) {
+        const frame = STACK_FRAME.exec(line);
+        if (!frame) {
+            // The first stack trace ends at the first non-frame line after it
+            if (inStack && !/^\s*#\d+/.test(line)) {
+                break;
+            }
+            continue;
+        }
+
+        inStack = true;
+        if (path.basename(frame[1]) === sourceName) {
+            return {
+                file: frame[1],
+                line: Number(frame[2]),
+                column: frame[3] ? Number(frame[3]) : undefined,
+            };
+        }
+    }
+
+    return undefined;
+}
+
+function parseSummaryLocation(stderr: string): SourceLocation | undefined {
+    const summary = ASAN_SUMMARY.exec(stderr);
+    if (!summary || !summary[3]) {
+        return undefined;
+    }
+    return {
+        file: summary[3],
+        line: Number(summary[4]),
+        column: summary[5] ? Number(summary[5]) : undefined,
+    };
+}
+
+function resolveLocation(location: SourceLocation, sourceDir: string): SourceLocation {
+    return { ...location, file: path.resolve(sourceDir, location.file) };
+}
@@ -0,0 +1,119 @@
+/**
+ * FastJudge Scoring
+ * Computes IOI-style group (subtask) scores from judge results.
+ *
+ * A group earns its points only if all of its tests are accepted and every
+ * group it depends on (directly or transitively) passes as well.
+ * Tests without a group do not contribute to the score.
+ */
+
+import { GroupScore, JudgeResult, ScoreReport, TestCase, TestGroup, Verdict } from '../types';
+
+/** Verdicts that say nothing about correctness yet */
+const UNDECIDED_VERDICTS: Verdict[] = ['PENDING', 'RUNNING', 'STOPPED'];
+
+/**
+ * Compute the score of every group and the total
+ */
+export function computeScore(
+    groups: TestGroup[],
+    testCases: TestCase[],
+    results: Map<string, JudgeResult>
+): ScoreReport {
+    const groupsById = new Map(groups.map(g => [g.id, g]));
+    const ownPassed = new Map<string, boolean>();
+    const verdicts = new Map<string, Verdict>();
+
+    for (const group of groups) {
+        const tests = testCases.filter(tc => tc.groupId === group.id);
+        const groupVerdicts = tests.map(tc => results.get(tc.id)?.verdict ?? 'PENDING');
+        verdicts.set(group.id, aggregateVerdict(groupVerdicts));
+        ownPassed.set(group.id, tests.length > 0 && groupVerdicts.every(v => v === 'AC'));
+    }
+
+    // Memoized dependency check (groups on a cycle never pass)
+    const passed = new Map<string, boolean>();
+    const visiting = new Set<string>();
+    const isPassed = (groupId: string): boolean => {
+        if (passed.has(groupId)) {
+            return passed.get(groupId)!;
+        }
+        const group = groupsById.get(groupId);
+        if (!group || visiting.has(groupId)) {
+            return false;
+        }
+        visiting.add(groupId);
+        const result = ownPassed.get(groupId)! && (group.dependencies ?? []).every(isPassed);
+        visiting.delete(groupId);
+        passed.set(groupId, result);
+        return result;
+    };
+
+    const scores: GroupScore[] = groups.map((group) => {
+        const tests = testCases.filter(tc => tc.groupId === group.id);
+        const groupPassed = isPassed(group.id);
+        const blockedBy = (group.dependencies ?? [])
+            .filter(id => !isPassed(id))
+            .map(id => groupsById.get(id)?.name ?? id);
+
+        return {
+            groupId: group.id,
+            name: group.name,
+            points: group.points,
+            earned: groupPassed ? group.points : 0,
+            verdict: verdicts.get(group.id)!,
+            passed: groupPassed,
+            blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
+            testCount: tests.length,
+            passedCount: tests.filter(tc => results.get(tc.id)?.verdict === 'AC').length,
+        };
+    });
+
+    return {
+        groups: scores,
+        total: scores.reduce((sum, g) => sum + g.earned, 0),
+        maxTotal: scores.reduce((sum, g) => sum + g.points, 0),
+    };
+}
+
+/**
+ * Combine test verdicts into one: AC if all passed, otherwise the first
+ * failing verdict, or the first undecided one if nothing failed
+ */
+export function aggregateVerdict(verdicts: Verdict[]): Verdict {
+    if (verdicts.length === 0) {
+        return 'PENDING';
+    }
+    if (verdicts.includes('RUNNING')) {
+        return 'RUNNING';
+    }
+
+    const failed = verdicts.find(v => v !== 'AC' && !UNDECIDED_VERDICTS.includes(v));
+    if (failed) {
+        return failed;
+    }
+
+    return verdicts.find(v => v !== 'AC') ?? 'AC';
+}
+
+/**
+ * Whether a group depends on another, directly or transitively
+ */
+export function dependsOn(groups: TestGroup[], groupId: string, targetId: string): boolean {
+    const groupsById = new Map(groups.map(g => [g.id, g]));
+    const seen = new Set<string>();
+    const pending = [...(groupsById.get(groupId)?.dependencies ?? [])];
+
+    while (pending.length > 0) {
+        const id = pending.pop()!;
+        if (id === targetId) {
+            return true;
+        }
+        if (!seen.has(id)) {
+            seen.add(id);
+            pending.push(...(groupsById.get(id)?.dependencies ?? []));
+        }
+    }
+
+    return false;
+}
@@ -7,6 +7,7 @@
  */
 
 import * as os from 'os';
+import { ExecutionResult } from '../types';
 
 // ============================================================================
 // Types
@@ -90,6 +91,32 @@ export function formatRuntimeError(exitCode: number, signal: NodeJS.Signals | nu
     return `Runtime Error — Process exited with code ${exitCode}`;
 }
 
+/**
+ * Describe why a helper program run (generator, reference solution, ...) failed.
+ * Returns undefined if the run succeeded.
+ */
+export function describeProgramFailure(
+    label: string,
+    result: ExecutionResult,
+    timeLimitMs: number
+): string | undefined {
+    if (result.timedOut) {
+        return `${label} exceeded time limit (>${timeLimitMs}ms)`;
+    }
+    if (result.outputLimitExceeded) {
+        return `${label} exceeded the output limit (fastjudge.general.outputLimitMb)`;
+    }
+    if (result.memoryLimitExceeded) {
+        const used = result.memoryUsageKb !== undefined ? ` (${Math.round(result.memoryUsageKb / 1024)}MB used)` : '';
+        return `${label} exceeded the memory limit${used}`;
+    }
+    if (result.exitCode !== 0 || result.signal) {
+        const stderr = result.stderr.trim();
+        return `${label} failed: ${formatRuntimeError(result.exitCode, result.signal)}${stderr ? `\n${stderr}` : ''}`;
+    }
+    return undefined;
+}
+
 // ============================================================================
 // Platform-Specific Parsers
 // ============================================================================
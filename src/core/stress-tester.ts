@@ -0,0 +1,239 @@
+/**
+ * FastJudge Stress Tester
+ * Hunts for a failing test by repeating, with an incrementing seed:
+ *
+ *   generator <seed>          -> input
+ *   validator < input         -> input checked against the constraints (optional)
+ *   brute force < input       -> expected output
+ *   solution < input          -> judged against the expected output
+ *
+ * The solution is judged like a regular test case (comparison mode or
+ * checker, time and memory limits), and the loop stops at the first
+ * verdict other than AC.
+ */
+
+import * as crypto from 'crypto';
+import { performance } from 'perf_hooks';
+import {
+    CompiledProgram,
+    JudgeOptions,
+    LinkedPrograms,
+    StressTestOptions,
+    StressTestResult,
+    TestCaseWithData
+} from '../types';
+import { ExecutorService } from './executor-service';
+import { JudgeService } from './judge-service';
+import { languageRegistry } from './language-registry';
+import { describeProgramFailure } from './signal-parser';
+import { ValidatorService } from './validator-service';
+
+/** Time limit for a single generator or brute-force run in milliseconds */
+const HELPER_TIME_LIMIT_MS = 10000;
+
+/** Default number of iterations before giving up */
+export const DEFAULT_STRESS_ITERATIONS = 1000;
+
+export class StressTester {
+    private judge: JudgeService;
+    private executor: ExecutorService;
+    private validator: ValidatorService;
+
+    constructor(judge: JudgeService, executor?: ExecutorService) {
+        this.judge = judge;
+        if (!executor) {
+            // Generators and brute-force solutions are sandboxed like the solution
+            executor = new ExecutorService(HELPER_TIME_LIMIT_MS);
+            executor.setSandbox(judge.getSandbox());
+            executor.setOutputLimit(judge.getOutputLimit());
+        }
+        this.executor = executor;
+        this.validator = new ValidatorService(this.executor);
+    }
+
+    /**
+     * Compile all programs and run the stress loop
+     */
+    async run(
+        sourcePath: string,
+        programs: LinkedPrograms,
+        options: StressTestOptions = {},
+        signal?: AbortSignal
+    ): Promise<StressTestResult> {
+        const startTime = performance.now();
+        // A compile failing because it was cancelled stops the run
+        const fail = (error: string): StressTestResult => ({
+            status: signal?.aborted ? 'stopped' : 'error',
+            iterations: 0,
+            elapsedMs: performance.now() - startTime,
+            error: signal?.aborted ? undefined : error,
+        });
+
+        if (!programs.generator || !programs.bruteForce) {
+            return fail('Stress testing needs a generator and a brute-force solution');
+        }
+        if (programs.interactor) {
+            return fail('Stress testing does not support interactive problems');
+        }
+
+        const compileResult = await this.judge.compile(sourcePath, {
+            profile: options.profile,
+            extraSources: options.extraSources,
+            signal,
+        });
+        if (!compileResult.success) {
+            return fail(`Compilation failed: ${compileResult.error}`);
+        }
+
+        const generator = await this.judge.compileProgram(programs.generator, signal);
+        if (!generator.program) {
+            return fail(`Generator compilation failed: ${generator.error}`);
+        }
+
+        const bruteForce = await this.judge.compileProgram(programs.bruteForce, signal);
+        if (!bruteForce.program) {
+            return fail(`Brute force compilation failed: ${bruteForce.error}`);
+        }
+
+        const linked = await this.judge.compileLinkedPrograms({
+            checker: programs.checker,
+            validator: programs.validator,
+        }, signal);
+        if (linked.error) {
+            return fail(linked.error);
+        }
+
+        // Inputs are validated once per iteration, before the brute force runs
+        const { validator, ...judgeOptions } = linked.options;
+
+        const solution: CompiledProgram = {
+            sourcePath,
+            outputDir: compileResult.outputDir!,
+            language: languageRegistry.detectProvider(sourcePath)?.id,
+        };
+
+        return this.loop(
+            solution,
+            generator.program,
+            bruteForce.program,
+            validator,
+            { memoryLimitMb: options.memoryLimitMb, profile: options.profile, ...judgeOptions },
+            options,
+            startTime,
+            signal
+        );
+    }
+
+    /**
+     * Generate, run and judge until a failing test is found
+     */
+    private async loop(
+        solution: CompiledProgram,
+        generator: CompiledProgram,
+        bruteForce: CompiledProgram,
+        validator: CompiledProgram | undefined,
+        judgeOptions: JudgeOptions,
+        options: StressTestOptions,
+        startTime: number,
+        signal?: AbortSignal
+    ): Promise<StressTestResult> {
+        const maxIterations = options.maxIterations ?? DEFAULT_STRESS_ITERATIONS;
+        const firstSeed = options.startSeed ?? 1;
+        let iterations = 0;
+
+        // Results of the iterations are stored under an ID of this run, so that
+        // runs for other files (or a later run) never overwrite a failing test's output
+        const testCaseId = `stress-${crypto.randomUUID()}`;
+
+        const finish = async (result: Omit<StressTestResult, 'iterations' | 'elapsedMs'>): Promise<StressTestResult> => {
+            if (result.status !== 'found') {
+                await this.judge.deleteResults(testCaseId);
+            }
+            return { ...result, iterations, elapsedMs: performance.now() - startTime };
+        };
+
+        while (iterations < maxIterations) {
+            if (signal?.aborted) {
+                return finish({ status: 'stopped' });
+            }
+
+            const seed = firstSeed + iterations;
+
+            // Generate input
+            const generated = await this.executor.execute(
+                generator.sourcePath,
+                generator.outputDir,
+                '',
+                generator.language,
+                signal,
+                { args: [String(seed)] }
+            );
+            if (generated.aborted) {
+                return finish({ status: 'stopped' });
+            }
+            const generatorError = describeProgramFailure('Generator', generated, this.executor.getTimeLimit());
+            if (generatorError) {
+                return finish({ status: 'error', seed, error: generatorError });
+            }
+            const input = generated.stdout;
+
+            if (validator) {
+                const validation = await this.validator.validate(validator, input, signal);
+                if (validation.aborted) {
+                    return finish({ status: 'stopped' });
+                }
+                if (!validation.valid) {
+                    const reason = validation.error
+                        || `Generator produced an invalid input${validation.message ? `: ${validation.message}` : ''}`;
+                    return finish({ status: 'error', seed, input, error: reason });
+                }
+            }
+
+            // Expected output from the brute force
+            const brute = await this.executor.execute(
+                bruteForce.sourcePath,
+                bruteForce.outputDir,
+                input,
+                bruteForce.language,
+                signal
+            );
+            if (brute.aborted) {
+                return finish({ status: 'stopped' });
+            }
+            const bruteError = describeProgramFailure('Brute force', brute, this.executor.getTimeLimit());
+            if (bruteError) {
+                return finish({ status: 'error', seed, input, error: bruteError });
+            }
+
+            // Judge the solution
+            const testCase: TestCaseWithData = {
+                id: testCaseId,
+                name: `Stress seed ${seed}`,
+                createdAt: Date.now(),
+                input,
+                expected: brute.stdout,
+            };
+            const result = await this.judge.judgeTestCase(
+                solution.sourcePath,
+                solution.outputDir,
+                testCase,
+                solution.language,
+                signal,
+                judgeOptions
+            );
+
+            if (result.verdict === 'STOPPED') {
+                return finish({ status: 'stopped' });
+            }
+
+            iterations++;
+            options.onProgress?.({ iteration: iterations, elapsedMs: performance.now() - startTime });
+
+            if (result.verdict !== 'AC') {
+                return finish({ status: 'found', seed, input, expected: brute.stdout, judgeResult: result });
+            }
+        }
+
+        return finish({ status: 'passed' });
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * FastJudge Validator Service
+ * Runs input validator programs using the testlib convention:
+ *
+ *   validator < input
+ *
+ * Exit code 0 means the input satisfies the constraints; any other exit code
+ * rejects it. The validator's message is read from stderr, falling back to stdout.
+ */
+
+import { CompiledProgram, ExecutionResult } from '../types';
+import { ExecutorService } from './executor-service';
+
+/** Time limit for a single validator run in milliseconds */
+const VALIDATOR_TIME_LIMIT_MS = 10000;
+
+export interface ValidationResult {
+    valid: boolean;
+    message: string;
+    /** Set when the validator itself could not run to completion */
+    error?: string;
+    aborted?: boolean;
+}
+
+export class ValidatorService {
+    private executor: ExecutorService;
+
+    constructor(executor?: ExecutorService) {
+        this.executor = executor || new ExecutorService(VALIDATOR_TIME_LIMIT_MS);
+    }
+
+    /**
+     * Check a test input against the validator
+     */
+    async validate(validator: CompiledProgram, input: string, signal?: AbortSignal): Promise<ValidationResult> {
+        const execResult = await this.executor.execute(
+            validator.sourcePath,
+            validator.outputDir,
+            input,
+            validator.language,
+            signal
+        );
+        return this.interpret(execResult);
+    }
+
+    /**
+     * Check a test input file against the validator (streamed to its stdin)
+     */
+    async validateFile(validator: CompiledProgram, inputPath: string, signal?: AbortSignal): Promise<ValidationResult> {
+        const execResult = await this.executor.executeWithFile(
+            validator.sourcePath,
+            validator.outputDir,
+            inputPath,
+            validator.language,
+            signal
+        );
+        return this.interpret(execResult);
+    }
+
+    /**
+     * Turn the validator's run into a verdict on the input
+     */
+    private interpret(execResult: ExecutionResult): ValidationResult {
+        if (execResult.aborted) {
+            return { valid: false, message: '', aborted: true };
+        }
+
+        if (execResult.timedOut) {
+            return {
+                valid: false,
+                message: '',
+                error: `Validator exceeded time limit (>${this.executor.getTimeLimit()}ms)`,
+            };
+        }
+
+        if (execResult.memoryLimitExceeded) {
+            return { valid: false, message: '', error: 'Validator exceeded the memory limit' };
+        }
+
+        if (execResult.signal) {
+            return {
+                valid: false,
+                message: '',
+                error: `Validator crashed (${execResult.signal})${execResult.stderr ? `: ${execResult.stderr.trim()}` : ''}`,
+            };
+        }
+
+        // Not started (e.g., missing binary): no verdict on the input
+        if (execResult.exitCode === -1) {
+            return {
+                valid: false,
+                message: '',
+                error: `Validator could not be run${execResult.stderr ? `: ${execResult.stderr.trim()}` : ''}`,
+            };
+        }
+
+        const message = execResult.stderr.trim() || execResult.stdout.trim();
+        return { valid: execResult.exitCode === 0, message };
+    }
+}
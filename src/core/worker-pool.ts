@@ -0,0 +1,38 @@
+/**
+ * Worker Pool
+ * Runs async tasks over a list with a bounded number in flight, so that
+ * parallel judging does not fork a process per test at once.
+ */
+
+import * as os from 'os';
+
+/**
+ * Default number of tests judged at once: one core is left for VS Code
+ */
+export function defaultConcurrency(): number {
+    return Math.max(os.cpus().length - 1, 1);
+}
+
+/**
+ * Run a task for every item, at most `concurrency` at a time, starting them in order.
+ * Results are returned in the order of the items.
+ */
+export async function runWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index], index);
+        }
+    };
+
+    const workerCount = Math.min(Math.max(Math.floor(concurrency), 1), items.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
@@ -10,6 +10,9 @@ import { CompanionManager } from './companion/companion-manager';
 import { TestCaseManager } from './storage/testcase-manager';
 import { JudgeService } from './core/judge-service';
 import { languageRegistry } from './core/language-registry';
+import { killAllProcessTrees } from './core/process-tree';
+import { BuildProfileStatus } from './ui/build-profile-status';
+import { CompilerDiagnostics } from './ui/compiler-diagnostics';
 
 let panelProvider: FastJudgeViewProvider | undefined;
 let companionManager: CompanionManager | undefined;
@@ -44,6 +47,11 @@ export async function activate(context: vscode.ExtensionContext) {
 	judgeService = new JudgeService(outputDir, workspaceRoot);
 	await judgeService.initialize();
 
+	// Show compiler errors and warnings in the Problems panel
+	const compilerDiagnostics = new CompilerDiagnostics();
+	judgeService.onCompiled((sourcePath, result) => compilerDiagnostics.update(sourcePath, result));
+	context.subscriptions.push(compilerDiagnostics);
+
 	// Create and register the webview provider
 	// Pass the shared instances
 	panelProvider = new FastJudgeViewProvider(context.extensionUri, testCaseManager!, judgeService!);
@@ -70,6 +78,35 @@ export async function activate(context: vscode.ExtensionContext) {
 	await companionManager.initialize();
 	context.subscriptions.push({ dispose: () => companionManager?.dispose() });
 
+	// Remove build artifacts of deleted and renamed sources
+	const removeArtifacts = (filePath: string) => {
+		judgeService?.removeArtifacts(filePath).catch((error) => {
+			console.warn(`FastJudge: Could not remove build artifacts of ${filePath}:`, error);
+		});
+		compilerDiagnostics.remove(filePath);
+	};
+	context.subscriptions.push(
+		vscode.workspace.onDidDeleteFiles((e) => {
+			for (const uri of e.files) {
+				removeArtifacts(uri.fsPath);
+			}
+		}),
+		vscode.workspace.onDidRenameFiles((e) => {
+			for (const { oldUri } of e.files) {
+				removeArtifacts(oldUri.fsPath);
+			}
+		})
+	);
+
+	// Build profile selector
+	const buildProfileStatus = new BuildProfileStatus();
+	buildProfileStatus.update();
+	context.subscriptions.push(
+		buildProfileStatus,
+		vscode.window.onDidChangeActiveTextEditor(() => buildProfileStatus.update()),
+		vscode.commands.registerCommand('fastjudge.selectBuildProfile', () => buildProfileStatus.select())
+	);
+
 	// Register companion toggle command
 	context.subscriptions.push(
 		vscode.commands.registerCommand('fastjudge.companion.toggle', () => {
@@ -100,6 +137,20 @@ export async function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.runAllSanitized', async () => {
+			const activeEditor = vscode.window.activeTextEditor;
+			vscode.commands.executeCommand('workbench.view.extension.fastjudge');
+			if (panelProvider) {
+				await panelProvider.runAllTests({ sanitize: true });
+			}
+			// Refocus editor
+			if (activeEditor) {
+				vscode.window.showTextDocument(activeEditor.document, activeEditor.viewColumn, false);
+			}
+		})
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('fastjudge.addTestCase', async () => {
 			// Save reference to active editor before opening panel
@@ -116,6 +167,124 @@ export async function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.setChecker', async () => {
+			await panelProvider?.selectLinkedProgram('checker');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.clearChecker', async () => {
+			await panelProvider?.clearLinkedProgram('checker');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.setInteractor', async () => {
+			await panelProvider?.selectLinkedProgram('interactor');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.clearInteractor', async () => {
+			await panelProvider?.clearLinkedProgram('interactor');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.setValidator', async () => {
+			await panelProvider?.selectLinkedProgram('validator');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.clearValidator', async () => {
+			await panelProvider?.clearLinkedProgram('validator');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.setGenerator', async () => {
+			await panelProvider?.selectLinkedProgram('generator');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.clearGenerator', async () => {
+			await panelProvider?.clearLinkedProgram('generator');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.setBruteForce', async () => {
+			await panelProvider?.selectLinkedProgram('bruteForce');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.clearBruteForce', async () => {
+			await panelProvider?.clearLinkedProgram('bruteForce');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.setReference', async () => {
+			await panelProvider?.selectLinkedProgram('reference');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.clearReference', async () => {
+			await panelProvider?.clearLinkedProgram('reference');
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.addExtraSources', async () => {
+			await panelProvider?.addExtraSources();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.clearExtraSources', async () => {
+			await panelProvider?.removeExtraSources();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.generateExpected', async () => {
+			vscode.commands.executeCommand('workbench.view.extension.fastjudge');
+			await panelProvider?.generateExpectedOutputs();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.benchmark', async () => {
+			vscode.commands.executeCommand('workbench.view.extension.fastjudge');
+			await panelProvider?.benchmarkTests();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.stressTest', async () => {
+			vscode.commands.executeCommand('workbench.view.extension.fastjudge');
+			await panelProvider?.runStressTest();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.addTestGroup', async () => {
+			vscode.commands.executeCommand('workbench.view.extension.fastjudge');
+			await panelProvider?.addTestGroup();
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('fastjudge.editTestGroup', async () => {
+			await panelProvider?.editTestGroup();
+		})
+	);
+
 	// Listen for configuration changes
 	context.subscriptions.push(
 		vscode.workspace.onDidChangeConfiguration(async (e) => {
@@ -125,10 +294,15 @@ export async function activate(context: vscode.ExtensionContext) {
 			if (e.affectsConfiguration('fastjudge.languages')) {
 				languageRegistry.loadFromConfiguration();
 			}
+			if (e.affectsConfiguration('fastjudge.languages') || e.affectsConfiguration('fastjudge.general.buildProfile')) {
+				buildProfileStatus.update();
+			}
 		})
 	);
 }
 
 export function deactivate() {
+	// Programs and compilers still running would outlive the extension host
+	killAllProcessTrees();
 	console.log('FastJudge is deactivated');
 }
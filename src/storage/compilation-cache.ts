@@ -0,0 +1,249 @@
+/**
+ * FastJudge Compilation Cache
+ * Persists compiled builds in .fastjudge/cache.json so they survive restarts.
+ *
+ * Several VS Code windows may share a workspace, so every change is a
+ * read-modify-write of the index under a lock file, and the index is replaced
+ * atomically (write to a temporary file, then rename). Reads need no lock and
+ * always see the latest index written by any window. The lock file holds a
+ * token of its owner, so a stale lock is only ever taken over once.
+ *
+ * Builds not used for maxAgeDays are evicted, and the least recently used
+ * builds are evicted while the cached binaries exceed maxSizeMb. Evicting a
+ * build deletes its binary.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { CacheEntry, CacheLimits, ICompilationCache } from '../types';
+
+const CACHE_FILE = 'cache.json';
+const LOCK_FILE = 'cache.lock';
+
+/** Current cache index version */
+const CACHE_VERSION = 1;
+
+/** Locks older than this were left behind by a crashed window */
+const LOCK_STALE_MS = 5000;
+const LOCK_RETRY_MS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_LIMITS: CacheLimits = { maxSizeMb: 500, maxAgeDays: 30 };
+
+interface CacheIndex {
+    version: number;
+    entries: Record<string, CacheEntry>;
+}
+
+export class DiskCache implements ICompilationCache {
+    private indexPath: string;
+    private lockPath: string;
+    private limits: CacheLimits;
+
+    constructor(storageDir: string, limits: CacheLimits = DEFAULT_CACHE_LIMITS) {
+        this.indexPath = path.join(storageDir, CACHE_FILE);
+        this.lockPath = path.join(storageDir, LOCK_FILE);
+        this.limits = limits;
+    }
+
+    /**
+     * Set eviction limits (applied on the next change)
+     */
+    setLimits(limits: CacheLimits): void {
+        this.limits = limits;
+    }
+
+    async get(key: string): Promise<CacheEntry | undefined> {
+        return (await this.readIndex()).entries[key];
+    }
+
+    async set(key: string, entry: CacheEntry): Promise<void> {
+        await this.update((index) => {
+            index.entries[key] = entry;
+            return this.evict(index, key);
+        });
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.update((index) => {
+            delete index.entries[key];
+            return [];
+        });
+    }
+
+    /**
+     * Forget all builds (their binaries are kept and overwritten by the next compile)
+     */
+    async clear(): Promise<void> {
+        await this.update((index) => {
+            index.entries = {};
+            return [];
+        });
+    }
+
+    /**
+     * Remove builds beyond the age and size limits, except the given key
+     * @returns Binaries of the evicted builds
+     */
+    private evict(index: CacheIndex, keepKey: string): string[] {
+        const now = Date.now();
+        const lastUsed = (entry: CacheEntry) => entry.lastUsedAt ?? entry.compiledAt;
+        const evicted: CacheEntry[] = [];
+
+        const remove = (key: string) => {
+            evicted.push(index.entries[key]);
+            delete index.entries[key];
+        };
+
+        if (this.limits.maxAgeDays > 0) {
+            const cutoff = now - this.limits.maxAgeDays * DAY_MS;
+            for (const [key, entry] of Object.entries(index.entries)) {
+                if (key !== keepKey && lastUsed(entry) < cutoff) {
+                    remove(key);
+                }
+            }
+        }
+
+        if (this.limits.maxSizeMb > 0) {
+            const maxBytes = this.limits.maxSizeMb * 1024 * 1024;
+            let totalBytes = Object.values(index.entries).reduce((sum, e) => sum + (e.sizeBytes ?? 0), 0);
+            const oldestFirst = Object.entries(index.entries)
+                .filter(([key]) => key !== keepKey)
+                .sort(([, a], [, b]) => lastUsed(a) - lastUsed(b));
+
+            for (const [key, entry] of oldestFirst) {
+                if (totalBytes <= maxBytes) {
+                    break;
+                }
+                totalBytes -= entry.sizeBytes ?? 0;
+                remove(key);
+            }
+        }
+
+        // A binary may still be used by a remaining entry
+        const inUse = new Set(Object.values(index.entries).map(e => e.executablePath));
+        return evicted
+            .map(e => e.executablePath)
+            .filter((p): p is string => !!p && !inUse.has(p));
+    }
+
+    /**
+     * Apply a change to the latest index under the lock, then delete evicted binaries.
+     * Cache failures never fail a compilation; the build is simply not cached.
+     */
+    private async update(change: (index: CacheIndex) => string[]): Promise<void> {
+        let evictedFiles: string[] = [];
+        try {
+            await this.withLock(async () => {
+                const index = await this.readIndex();
+                evictedFiles = change(index);
+                await this.writeIndex(index);
+            });
+        } catch (error) {
+            console.warn('FastJudge: Could not update compilation cache:', error);
+            return;
+        }
+
+        await Promise.all(evictedFiles.map(file => fs.rm(file, { force: true }).catch(() => undefined)));
+    }
+
+    private async readIndex(): Promise<CacheIndex> {
+        try {
+            const index = JSON.parse(await fs.readFile(this.indexPath, 'utf-8')) as CacheIndex;
+            if (index.version === CACHE_VERSION && index.entries) {
+                return index;
+            }
+        } catch {
+            // Missing or corrupt index: start over
+        }
+        return { version: CACHE_VERSION, entries: {} };
+    }
+
+    private async writeIndex(index: CacheIndex): Promise<void> {
+        const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(index, null, 2), 'utf-8');
+        await fs.rename(tempPath, this.indexPath);
+    }
+
+    /**
+     * Run a function while holding the lock file (shared by all windows)
+     */
+    private async withLock(fn: () => Promise<void>): Promise<void> {
+        await fs.mkdir(path.dirname(this.lockPath), { recursive: true });
+        const token = `${process.pid}-${crypto.randomUUID()}`;
+
+        for (;;) {
+            try {
+                await fs.writeFile(this.lockPath, token, { flag: 'wx' });
+                break;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            const staleToken = await this.getStaleLockToken();
+            if (staleToken === undefined || !await this.takeOverStaleLock(staleToken)) {
+                await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+            }
+        }
+
+        try {
+            await fn();
+        } finally {
+            // Unless another window took it over meanwhile
+            if (await readLockToken(this.lockPath) === token) {
+                await fs.rm(this.lockPath, { force: true });
+            }
+        }
+    }
+
+    /**
+     * Token of the lock if it is stale, or undefined if it is held (or released)
+     */
+    private async getStaleLockToken(): Promise<string | undefined> {
+        // Token before age: a lock replaced in between is seen as fresh, never as stale with the new token
+        const token = await readLockToken(this.lockPath);
+        try {
+            const stale = Date.now() - (await fs.stat(this.lockPath)).mtimeMs > LOCK_STALE_MS;
+            return stale ? token : undefined;
+        } catch {
+            // Released in the meantime
+            return undefined;
+        }
+    }
+
+    /**
+     * Remove the stale lock with the given token. The lock is first moved aside
+     * atomically, so only one window gets it; if the moved lock turns out to be
+     * a fresh one (another window replaced the stale lock first), it is put back.
+     * @returns whether the stale lock was removed
+     */
+    private async takeOverStaleLock(staleToken: string): Promise<boolean> {
+        const claimedPath = `${this.lockPath}.${process.pid}.${crypto.randomUUID()}`;
+        try {
+            await fs.rename(this.lockPath, claimedPath);
+        } catch {
+            // Another window moved or released it
+            return false;
+        }
+
+        const claimedToken = await readLockToken(claimedPath);
+        if (claimedToken !== staleToken) {
+            // Does not replace a lock created meanwhile
+            await fs.link(claimedPath, this.lockPath).catch(() => undefined);
+        }
+        await fs.rm(claimedPath, { force: true });
+        return claimedToken === staleToken;
+    }
+}
+
+async function readLockToken(lockPath: string): Promise<string | undefined> {
+    try {
+        return await fs.readFile(lockPath, 'utf-8');
+    } catch {
+        return undefined;
+    }
+}
@@ -8,7 +8,7 @@ import * as path from 'path';
 import { JudgeResult } from '../types';
 
 /** Maximum bytes to show in UI (first 5KB + last 5KB) */
-const TRUNCATE_LIMIT = 5 * 1024;
+export const TRUNCATE_LIMIT = 5 * 1024;
 
 export interface TruncatedOutput {
     content: string;
@@ -60,6 +60,51 @@ export class ResultStorageService {
         return { stdoutPath, stderrPath };
     }
 
+    /**
+     * Get paths of the stdout and stderr files, for programs that stream their output there
+     */
+    async getOutputPaths(testCaseId: string): Promise<{ stdoutPath: string; stderrPath: string }> {
+        const dir = this.getTestCaseDir(testCaseId);
+        await fs.promises.mkdir(dir, { recursive: true });
+
+        return {
+            stdoutPath: path.join(dir, 'stdout.txt'),
+            stderrPath: path.join(dir, 'stderr.txt'),
+        };
+    }
+
+    /**
+     * Save test input and expected output next to the results
+     * (for programs that read them from files, e.g. checkers)
+     */
+    async saveTestData(
+        testCaseId: string,
+        input: string,
+        expected: string
+    ): Promise<{ inputPath: string; answerPath: string }> {
+        const dir = this.getTestCaseDir(testCaseId);
+        await fs.promises.mkdir(dir, { recursive: true });
+
+        const inputPath = path.join(dir, 'input.txt');
+        const answerPath = path.join(dir, 'answer.txt');
+
+        await Promise.all([
+            fs.promises.writeFile(inputPath, input, 'utf-8'),
+            fs.promises.writeFile(answerPath, expected, 'utf-8'),
+        ]);
+
+        return { inputPath, answerPath };
+    }
+
+    /**
+     * Get path for an extra result file (e.g., interactor output), creating its directory
+     */
+    async getResultFilePath(testCaseId: string, fileName: string): Promise<string> {
+        const dir = this.getTestCaseDir(testCaseId);
+        await fs.promises.mkdir(dir, { recursive: true });
+        return path.join(dir, fileName);
+    }
+
     /**
      * Save JudgeResult metadata to JSON file
      */
@@ -106,51 +151,7 @@ export class ResultStorageService {
      * Get truncated output for UI display (first 5KB + last 5KB)
      */
     async getTruncatedOutput(filePath: string): Promise<TruncatedOutput> {
-        try {
-            const stats = await fs.promises.stat(filePath);
-            const fullSize = stats.size;
-
-            if (fullSize <= TRUNCATE_LIMIT * 2) {
-                // Small enough, return full content
-                const content = await fs.promises.readFile(filePath, 'utf-8');
-                return {
-                    content,
-                    truncated: false,
-                    fullPath: filePath,
-                    fullSize,
-                };
-            }
-
-            // Large file - read first and last chunks
-            const fd = await fs.promises.open(filePath, 'r');
-            try {
-                const firstBuffer = Buffer.alloc(TRUNCATE_LIMIT);
-                const lastBuffer = Buffer.alloc(TRUNCATE_LIMIT);
-
-                await fd.read(firstBuffer, 0, TRUNCATE_LIMIT, 0);
-                await fd.read(lastBuffer, 0, TRUNCATE_LIMIT, fullSize - TRUNCATE_LIMIT);
-
-                const first = firstBuffer.toString('utf-8');
-                const last = lastBuffer.toString('utf-8');
-                const separator = `\n\n... [${formatBytes(fullSize - TRUNCATE_LIMIT * 2)} truncated] ...\n\n`;
-
-                return {
-                    content: first + separator + last,
-                    truncated: true,
-                    fullPath: filePath,
-                    fullSize,
-                };
-            } finally {
-                await fd.close();
-            }
-        } catch {
-            return {
-                content: '',
-                truncated: false,
-                fullPath: filePath,
-                fullSize: 0,
-            };
-        }
+        return readTruncatedFile(filePath);
     }
 
     /**
@@ -187,6 +188,32 @@ export class ResultStorageService {
         }
     }
 
+    /**
+     * Move the results of a test case to another ID (e.g., a stress test saved as a test case)
+     * Returns the moved result with its ID and output paths updated, or undefined if there is none.
+     */
+    async moveResults(fromId: string, toId: string): Promise<JudgeResult | undefined> {
+        const result = await this.loadJudgeResult(fromId);
+        if (!result) {
+            return undefined;
+        }
+
+        const fromDir = this.getTestCaseDir(fromId);
+        const toDir = this.getTestCaseDir(toId);
+        await this.deleteResults(toId);
+        await fs.promises.rename(fromDir, toDir);
+
+        const relocate = (filePath?: string) => filePath && path.join(toDir, path.relative(fromDir, filePath));
+        const moved: JudgeResult = {
+            ...result,
+            testCaseId: toId,
+            stdoutPath: relocate(result.stdoutPath),
+            stderrPath: relocate(result.stderrPath),
+        };
+        await this.saveJudgeResult(moved);
+        return moved;
+    }
+
     /**
      * Clean up old results (older than specified days)
      * @param retentionDays Days to keep results (default 7)
@@ -223,7 +250,7 @@ export class ResultStorageService {
 /**
  * Format bytes to human-readable string
  */
-function formatBytes(bytes: number): string {
+export function formatBytes(bytes: number): string {
     if (bytes < 1024) {
         return `${bytes} B`;
     }
@@ -232,3 +259,54 @@ function formatBytes(bytes: number): string {
     }
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
+
+/**
+ * Read a file for UI display (first 5KB + last 5KB)
+ */
+export async function readTruncatedFile(filePath: string): Promise<TruncatedOutput> {
+    try {
+        const stats = await fs.promises.stat(filePath);
+        const fullSize = stats.size;
+
+        if (fullSize <= TRUNCATE_LIMIT * 2) {
+            // Small enough, return full content
+            const content = await fs.promises.readFile(filePath, 'utf-8');
+            return {
+                content,
+                truncated: false,
+                fullPath: filePath,
+                fullSize,
+            };
+        }
+
+        // Large file - read first and last chunks
+        const fd = await fs.promises.open(filePath, 'r');
+        try {
+            const firstBuffer = Buffer.alloc(TRUNCATE_LIMIT);
+            const lastBuffer = Buffer.alloc(TRUNCATE_LIMIT);
+
+            await fd.read(firstBuffer, 0, TRUNCATE_LIMIT, 0);
+            await fd.read(lastBuffer, 0, TRUNCATE_LIMIT, fullSize - TRUNCATE_LIMIT);
+
+            const first = firstBuffer.toString('utf-8');
+            const last = lastBuffer.toString('utf-8');
+            const separator = `\n\n... [${formatBytes(fullSize - TRUNCATE_LIMIT * 2)} truncated] ...\n\n`;
+
+            return {
+                content: first + separator + last,
+                truncated: true,
+                fullPath: filePath,
+                fullSize,
+            };
+        } finally {
+            await fd.close();
+        }
+    } catch {
+        return {
+            content: '',
+            truncated: false,
+            fullPath: filePath,
+            fullSize: 0,
+        };
+    }
+}
@@ -6,7 +6,17 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { TestCase, TestCaseWithData, StorageIndex, TestCaseId } from '../types';
+import {
+    TestCase,
+    TestCaseWithData,
+    StorageIndex,
+    TestCaseId,
+    FileSettings,
+    LinkedPrograms,
+    ProgramRole,
+    TestGroup
+} from '../types';
+import { readTruncatedFile, TruncatedOutput } from './result-storage';
 
 /**
  * Generate a UUID v4
@@ -113,8 +123,12 @@ export class TestCaseManager {
 
         return {
             ...testCase,
-            input,
-            expected,
+            input: input.content,
+            expected: expected.content,
+            inputPath: this.getDataPath(id, 'in'),
+            expectedPath: this.getDataPath(id, 'out'),
+            inputTruncated: input.truncated,
+            expectedTruncated: expected.truncated,
         };
     }
 
@@ -259,6 +273,196 @@ export class TestCaseManager {
         return true;
     }
 
+    // ===========================================================================
+    // Per-File Settings
+    // ===========================================================================
+
+    /**
+     * Get settings stored for a file
+     */
+    getFileSettings(filePath: string): FileSettings {
+        if (!this.index) {
+            return {};
+        }
+        const relativePath = this.getRelativePath(filePath);
+        return this.index.settings?.[relativePath] || {};
+    }
+
+    /**
+     * Update settings stored for a file (undefined values remove the setting)
+     */
+    async updateFileSettings(filePath: string, updates: Partial<FileSettings>): Promise<void> {
+        if (!this.index) {
+            await this.loadIndex();
+        }
+
+        const relativePath = this.getRelativePath(filePath);
+        const allSettings = this.index!.settings || {};
+        const settings: FileSettings = { ...allSettings[relativePath], ...updates };
+
+        for (const key of Object.keys(settings) as (keyof FileSettings)[]) {
+            if (settings[key] === undefined) {
+                delete settings[key];
+            }
+        }
+
+        if (Object.keys(settings).length === 0) {
+            delete allSettings[relativePath];
+        } else {
+            allSettings[relativePath] = settings;
+        }
+
+        this.index!.settings = allSettings;
+        await this.saveIndex();
+    }
+
+    /**
+     * Get helper programs attached to a file (absolute paths)
+     */
+    getLinkedPrograms(filePath: string): LinkedPrograms {
+        const programs = this.getFileSettings(filePath).programs || {};
+        const resolved: LinkedPrograms = {};
+
+        for (const [role, programPath] of Object.entries(programs) as [ProgramRole, string][]) {
+            resolved[role] = path.resolve(this.workspaceRoot, programPath);
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Attach a helper program to a file, or detach it when programPath is undefined
+     */
+    async setLinkedProgram(filePath: string, role: ProgramRole, programPath: string | undefined): Promise<void> {
+        const programs: LinkedPrograms = { ...this.getFileSettings(filePath).programs };
+
+        if (programPath) {
+            programs[role] = this.getRelativePath(programPath);
+        } else {
+            delete programs[role];
+        }
+
+        await this.updateFileSettings(filePath, {
+            programs: Object.keys(programs).length > 0 ? programs : undefined,
+        });
+    }
+
+    /**
+     * Get the extra sources compiled together with a file (absolute paths)
+     */
+    getExtraSources(filePath: string): string[] {
+        return (this.getFileSettings(filePath).extraSources || [])
+            .map(sourcePath => path.resolve(this.workspaceRoot, sourcePath));
+    }
+
+    /**
+     * Set the extra sources compiled together with a file (an empty list removes them)
+     */
+    async setExtraSources(filePath: string, sourcePaths: string[]): Promise<void> {
+        await this.updateFileSettings(filePath, {
+            extraSources: sourcePaths.length > 0 ? sourcePaths.map(p => this.getRelativePath(p)) : undefined,
+        });
+    }
+
+    // ===========================================================================
+    // Test Groups
+    // ===========================================================================
+
+    /**
+     * Get the test groups of a file in display order
+     */
+    getGroups(filePath: string): TestGroup[] {
+        return this.getFileSettings(filePath).groups || [];
+    }
+
+    /**
+     * Add a test group to a file
+     */
+    async addGroup(filePath: string, name: string, points: number, dependencies: string[] = []): Promise<TestGroup> {
+        const group: TestGroup = { id: generateId(), name, points };
+        if (dependencies.length > 0) {
+            group.dependencies = dependencies;
+        }
+
+        await this.updateFileSettings(filePath, { groups: [...this.getGroups(filePath), group] });
+        return group;
+    }
+
+    /**
+     * Update a test group's name, points or dependencies
+     */
+    async updateGroup(
+        filePath: string,
+        groupId: string,
+        updates: Partial<Omit<TestGroup, 'id'>>
+    ): Promise<boolean> {
+        const groups = this.getGroups(filePath);
+        const index = groups.findIndex(g => g.id === groupId);
+        if (index === -1) {
+            return false;
+        }
+
+        const updated: TestGroup = { ...groups[index], ...updates };
+        if (!updated.dependencies?.length) {
+            delete updated.dependencies;
+        }
+
+        await this.updateFileSettings(filePath, {
+            groups: groups.map((g, i) => (i === index ? updated : g)),
+        });
+        return true;
+    }
+
+    /**
+     * Delete a test group; its tests become ungrouped and other groups stop depending on it
+     */
+    async deleteGroup(filePath: string, groupId: string): Promise<boolean> {
+        const groups = this.getGroups(filePath);
+        if (!groups.some(g => g.id === groupId)) {
+            return false;
+        }
+
+        for (const testCase of this.index!.files[this.getRelativePath(filePath)] || []) {
+            if (testCase.groupId === groupId) {
+                delete testCase.groupId;
+            }
+        }
+
+        const remaining = groups
+            .filter(g => g.id !== groupId)
+            .map((g) => {
+                const { dependencies, ...rest } = g;
+                const remainingDependencies = dependencies?.filter(id => id !== groupId);
+                return remainingDependencies?.length ? { ...rest, dependencies: remainingDependencies } : rest;
+            });
+
+        await this.updateFileSettings(filePath, { groups: remaining.length > 0 ? remaining : undefined });
+        return true;
+    }
+
+    /**
+     * Move a test case into a group, or out of any group when groupId is undefined
+     */
+    async setTestCaseGroup(filePath: string, id: TestCaseId, groupId: string | undefined): Promise<boolean> {
+        if (!this.index) {
+            return false;
+        }
+
+        const testCase = this.index.files[this.getRelativePath(filePath)]?.find(tc => tc.id === id);
+        if (!testCase || (groupId && !this.getGroups(filePath).some(g => g.id === groupId))) {
+            return false;
+        }
+
+        if (groupId) {
+            testCase.groupId = groupId;
+        } else {
+            delete testCase.groupId;
+        }
+
+        await this.saveIndex();
+        return true;
+    }
+
     // ===========================================================================
     // Helper Methods
     // ===========================================================================
@@ -278,14 +482,11 @@ export class TestCaseManager {
     }
 
     /**
-     * Read data file content
+     * Read data file content (only the first and last 5KB of large files;
+     * the judge streams the full data from the file)
      */
-    private async readDataFile(id: TestCaseId, type: 'in' | 'out'): Promise<string> {
-        try {
-            return await fs.readFile(this.getDataPath(id, type), 'utf-8');
-        } catch {
-            return '';
-        }
+    private readDataFile(id: TestCaseId, type: 'in' | 'out'): Promise<TruncatedOutput> {
+        return readTruncatedFile(this.getDataPath(id, type));
     }
 
     /**
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { computeStats, summarizeBenchmark } from '../core/benchmark';
+import { ExecutionResult } from '../types';
+
+const run = (executionTimeMs: number, memoryUsageKb?: number): ExecutionResult => ({
+    stdout: '',
+    stderr: '',
+    exitCode: 0,
+    signal: null,
+    executionTimeMs,
+    memoryUsageKb,
+    timedOut: false,
+    aborted: false,
+});
+
+suite('Benchmark Test Suite', () => {
+    test('Computes min, median, max and sample standard deviation', () => {
+        assert.deepStrictEqual(computeStats([4, 2, 8, 6]), {
+            min: 2,
+            median: 5,
+            max: 8,
+            stddev: Math.sqrt(20 / 3),
+        });
+    });
+
+    test('Median of an odd number of runs is the middle one', () => {
+        assert.strictEqual(computeStats([30, 10, 20]).median, 20);
+    });
+
+    test('A single run has no spread', () => {
+        assert.deepStrictEqual(computeStats([7]), { min: 7, median: 7, max: 7, stddev: 0 });
+    });
+
+    test('Memory statistics need every run to be measured', () => {
+        const measured = summarizeBenchmark([run(10, 1000), run(12, 1200)], 1);
+        const unmeasured = summarizeBenchmark([run(10, 1000), run(12)], 1);
+
+        assert.strictEqual(measured.runs, 2);
+        assert.strictEqual(measured.memoryKb?.median, 1100);
+        assert.strictEqual(unmeasured.memoryKb, undefined);
+    });
+
+    test('No completed run gives only the error', () => {
+        assert.deepStrictEqual(summarizeBenchmark([], 2, 'Run 1 failed'), {
+            runs: 0,
+            warmupRuns: 2,
+            timeMs: undefined,
+            memoryKb: undefined,
+            error: 'Run 1 failed',
+        });
+    });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { parseCheckerExit } from '../core/checker-service';
+
+suite('CheckerService Test Suite', () => {
+    suite('parseCheckerExit', () => {
+        test('Exit code 0 is AC', () => {
+            const result = parseCheckerExit(0, 'ok 3 numbers');
+            assert.strictEqual(result.verdict, 'AC');
+            assert.strictEqual(result.message, 'ok 3 numbers');
+        });
+
+        test('Exit code 1 is WA with checker message', () => {
+            const result = parseCheckerExit(1, 'expected 5, found 4');
+            assert.strictEqual(result.verdict, 'WA');
+            assert.strictEqual(result.message, 'Wrong Answer: expected 5, found 4');
+        });
+
+        test('Exit code 2 is reported as Presentation Error', () => {
+            const result = parseCheckerExit(2, 'extra tokens');
+            assert.strictEqual(result.verdict, 'WA');
+            assert.strictEqual(result.message, 'Presentation Error: extra tokens');
+        });
+
+        test('Exit code 3 is a checker failure (IE)', () => {
+            const result = parseCheckerExit(3, 'answer file is invalid');
+            assert.strictEqual(result.verdict, 'IE');
+            assert.ok(result.message.startsWith('Checker failed'));
+        });
+
+        test('Unknown exit codes are IE', () => {
+            const result = parseCheckerExit(42, '');
+            assert.strictEqual(result.verdict, 'IE');
+            assert.strictEqual(result.message, 'Checker exited with unexpected code 42');
+        });
+    });
+});
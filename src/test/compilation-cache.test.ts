@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { DiskCache } from '../storage/compilation-cache';
+import { CacheEntry } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+suite('DiskCache Test Suite', () => {
+    let testDir: string;
+
+    /** Create a binary of the given size and a cache entry for it */
+    const build = async (name: string, sizeBytes: number, lastUsedAt = Date.now()): Promise<CacheEntry> => {
+        const executablePath = path.join(testDir, 'out', name);
+        await fs.mkdir(path.dirname(executablePath), { recursive: true });
+        await fs.writeFile(executablePath, Buffer.alloc(sizeBytes));
+        return { contentHash: name, outputDir: path.dirname(executablePath), executablePath, compiledAt: lastUsedAt, lastUsedAt, sizeBytes };
+    };
+
+    const exists = (filePath: string) => fs.access(filePath).then(() => true, () => false);
+
+    setup(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fastjudge-cache-'));
+    });
+
+    teardown(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    test('Entries survive a new cache instance', async () => {
+        const entry = await build('a', 10);
+        await new DiskCache(testDir).set('a.cpp', entry);
+
+        assert.deepStrictEqual(await new DiskCache(testDir).get('a.cpp'), entry);
+    });
+
+    test('Delete and clear remove entries', async () => {
+        const cache = new DiskCache(testDir);
+        await cache.set('a.cpp', await build('a', 10));
+        await cache.set('b.cpp', await build('b', 10));
+
+        await cache.delete('a.cpp');
+        assert.strictEqual(await cache.get('a.cpp'), undefined);
+        assert.ok(await cache.get('b.cpp'));
+
+        await cache.clear();
+        assert.strictEqual(await cache.get('b.cpp'), undefined);
+    });
+
+    test('Evicts builds unused for maxAgeDays and deletes their binaries', async () => {
+        const cache = new DiskCache(testDir, { maxSizeMb: 0, maxAgeDays: 7 });
+        const old = await build('old', 10, Date.now() - 8 * DAY_MS);
+        await cache.set('old.cpp', old);
+        await cache.set('new.cpp', await build('new', 10));
+
+        assert.strictEqual(await cache.get('old.cpp'), undefined);
+        assert.ok(await cache.get('new.cpp'));
+        assert.strictEqual(await exists(old.executablePath!), false);
+    });
+
+    test('Evicts least recently used builds beyond maxSizeMb', async () => {
+        const cache = new DiskCache(testDir, { maxSizeMb: 1, maxAgeDays: 0 });
+        const half = 512 * 1024;
+        await cache.set('a.cpp', await build('a', half, Date.now() - 3000));
+        await cache.set('b.cpp', await build('b', half, Date.now() - 2000));
+        await cache.set('c.cpp', await build('c', half, Date.now() - 1000));
+
+        assert.strictEqual(await cache.get('a.cpp'), undefined);
+        assert.ok(await cache.get('b.cpp'));
+        assert.ok(await cache.get('c.cpp'));
+    });
+
+    test('Never evicts the build being stored', async () => {
+        const cache = new DiskCache(testDir, { maxSizeMb: 1, maxAgeDays: 0 });
+        await cache.set('big.cpp', await build('big', 2 * 1024 * 1024));
+
+        assert.ok(await cache.get('big.cpp'));
+    });
+
+    test('Concurrent writers sharing the directory keep all entries', async () => {
+        const windows = [new DiskCache(testDir), new DiskCache(testDir)];
+        const entries = await Promise.all(['a', 'b', 'c', 'd', 'e', 'f'].map(name => build(name, 10)));
+
+        await Promise.all(entries.map((entry, i) => windows[i % 2].set(`${entry.contentHash}.cpp`, entry)));
+
+        for (const entry of entries) {
+            assert.deepStrictEqual(await windows[0].get(`${entry.contentHash}.cpp`), entry);
+        }
+    });
+
+    test('Recovers from a stale lock file', async () => {
+        const lockPath = path.join(testDir, 'cache.lock');
+        await fs.writeFile(lockPath, '');
+        const past = new Date(Date.now() - 60 * 1000);
+        await fs.utimes(lockPath, past, past);
+
+        await new DiskCache(testDir).set('a.cpp', await build('a', 10));
+
+        assert.ok(await new DiskCache(testDir).get('a.cpp'));
+        assert.strictEqual(await exists(lockPath), false);
+    });
+
+    test('Only one window takes over a stale lock', async () => {
+        const lockPath = path.join(testDir, 'cache.lock');
+        await fs.writeFile(lockPath, 'crashed');
+        const past = new Date(Date.now() - 60 * 1000);
+        await fs.utimes(lockPath, past, past);
+
+        // All windows find the stale lock at once; a second takeover would let two writers overlap
+        const windows = [...Array(8).keys()].map(() => new DiskCache(testDir));
+        const entries = await Promise.all(windows.map((_, i) => build(`w${i}`, 10)));
+        await Promise.all(entries.map(async (entry, i) => {
+            // Staggered, so that some windows judge the lock stale after another one replaced it
+            await new Promise(resolve => setTimeout(resolve, i % 4));
+            await windows[i].set(`${entry.contentHash}.cpp`, entry);
+        }));
+
+        for (const entry of entries) {
+            assert.deepStrictEqual(await windows[0].get(`${entry.contentHash}.cpp`), entry);
+        }
+        assert.strictEqual(await exists(lockPath), false);
+    });
+});
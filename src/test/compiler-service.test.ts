@@ -0,0 +1,217 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { CompilerService } from '../core/compiler-service';
+import { CustomLanguageProvider, languageRegistry } from '../core/language-registry';
+import { LanguageConfig } from '../types';
+
+// The fake compilers are shell scripts
+(process.platform === 'win32' ? suite.skip : suite)('CompilerService Test Suite', () => {
+    let testDir: string;
+    let sourcePath: string;
+    let compilerPath: string;
+
+    /**
+     * Install a fake gcc: it answers --version and otherwise runs the given script
+     * (named g++ so that the service treats it as gcc-compatible)
+     */
+    const installCompiler = async (script: string, version = '1.0') => {
+        await fs.writeFile(compilerPath, `#!/bin/sh\n[ "$1" = "--version" ] && echo "fake g++ ${version}" && exit 0\n${script}\n`);
+        await fs.chmod(compilerPath, 0o755);
+    };
+
+    /** Fake compile: creates the file after -o (the last argument) */
+    const COMPILE = 'for last; do :; done\ntouch "$last"';
+
+    /** Register a language for .fjt files compiled by the fake compiler */
+    const registerLanguage = (config: Partial<LanguageConfig> = {}) => {
+        languageRegistry.register(new CustomLanguageProvider('fake', {
+            name: 'Fake',
+            extensions: ['.fjt'],
+            compileArgs: [compilerPath, '${sourceFile}', '-o', '${executableFile}'],
+            runArgs: ['${executableFile}'],
+            ...config,
+        }));
+    };
+
+    setup(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fastjudge-compiler-'));
+        sourcePath = path.join(testDir, 'main.fjt');
+        compilerPath = path.join(testDir, 'g++');
+        await fs.writeFile(sourcePath, 'int main() {}');
+        registerLanguage();
+    });
+
+    teardown(async () => {
+        languageRegistry.loadFromConfiguration();
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    suite('Time limit and cancellation', () => {
+        test('Stops a compiler that exceeds the compile time limit', async () => {
+            await installCompiler('exec sleep 30');
+            const compiler = new CompilerService(path.join(testDir, 'out'));
+            compiler.setCompileTimeLimit(200);
+
+            const start = Date.now();
+            const result = await compiler.compile(sourcePath);
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.timedOut, true);
+            assert.match(result.error!, /fastjudge\.general\.compileTimeLimitMs/);
+            assert.ok(Date.now() - start < 5000);
+        });
+
+        test('Stops the compiler when the compile is cancelled', async () => {
+            await installCompiler('exec sleep 30');
+            const compiler = new CompilerService(path.join(testDir, 'out'));
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 100);
+
+            const result = await compiler.compile(sourcePath, { signal: controller.signal });
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.aborted, true);
+            assert.strictEqual(result.timedOut, undefined);
+        });
+
+        test('The precompiled header build counts against the compile time limit', async () => {
+            // Only the header build (-x c++-header) hangs
+            await installCompiler('case " $* " in *" -x "*) exec sleep 30 ;; esac');
+            registerLanguage({ precompiledHeader: 'bits/stdc++.h' });
+            const compiler = new CompilerService(path.join(testDir, 'out'));
+            compiler.setCompileTimeLimit(200);
+
+            const start = Date.now();
+            const result = await compiler.compile(sourcePath);
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.timedOut, true);
+            assert.match(result.error!, /after 0\.2s/);
+            assert.ok(Date.now() - start < 5000);
+        });
+
+        test('Cancelling stops the precompiled header build', async () => {
+            await installCompiler('case " $* " in *" -x "*) exec sleep 30 ;; esac');
+            registerLanguage({ precompiledHeader: 'bits/stdc++.h' });
+            const compiler = new CompilerService(path.join(testDir, 'out'));
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 100);
+
+            const start = Date.now();
+            const result = await compiler.compile(sourcePath, { signal: controller.signal });
+
+            assert.strictEqual(result.aborted, true);
+            assert.strictEqual(result.precompiledHeader, undefined);
+            assert.ok(Date.now() - start < 5000);
+        });
+    });
+
+    suite('Recompile reasons', () => {
+        test('Reuses the build until the compile command changes', async () => {
+            await installCompiler(COMPILE);
+            const compiler = new CompilerService(path.join(testDir, 'out'));
+
+            const first = await compiler.compile(sourcePath);
+            const second = await compiler.compile(sourcePath);
+            registerLanguage({ compileArgs: [compilerPath, '-O2', '${sourceFile}', '-o', '${executableFile}'] });
+            const third = await compiler.compile(sourcePath);
+
+            assert.strictEqual(first.recompileReason, 'notCached');
+            assert.strictEqual(second.cached, true);
+            assert.strictEqual(third.recompileReason, 'commandChanged');
+        });
+
+        test('Notices a compiler update during the session', async () => {
+            await installCompiler(COMPILE);
+            const compiler = new CompilerService(path.join(testDir, 'out'));
+            await compiler.compile(sourcePath);
+
+            await installCompiler(COMPILE, '2.0');
+            // Same size; make sure the modification time differs
+            const later = new Date(Date.now() + 60000);
+            await fs.utimes(compilerPath, later, later);
+            const result = await compiler.compile(sourcePath);
+
+            assert.strictEqual(result.recompileReason, 'toolchainChanged');
+        });
+    });
+
+    suite('Output directories', () => {
+        /** Write a source file below the test directory */
+        const writeSource = async (relativePath: string) => {
+            const filePath = path.join(testDir, relativePath);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, 'int main() {}');
+            return filePath;
+        };
+
+        test('Builds mirror the workspace-relative path of their source', async () => {
+            await installCompiler(COMPILE);
+            const outputDir = path.join(testDir, 'out');
+            const compiler = new CompilerService(outputDir, undefined, testDir);
+
+            const a = await compiler.compile(await writeSource('a/main.fjt'));
+            const b = await compiler.compile(await writeSource('b/main.fjt'));
+
+            assert.strictEqual(a.outputDir, path.join(outputDir, 'a', 'main.fjt'));
+            assert.strictEqual(b.outputDir, path.join(outputDir, 'b', 'main.fjt'));
+        });
+
+        test('Sources outside the workspace are built by directory under @external', async () => {
+            await installCompiler(COMPILE);
+            const outputDir = path.join(testDir, 'out');
+            const compiler = new CompilerService(outputDir, undefined, path.join(testDir, 'workspace'));
+
+            const a = await compiler.compile(await writeSource('a/main.fjt'));
+            const b = await compiler.compile(await writeSource('b/main.fjt'));
+
+            assert.strictEqual(path.dirname(path.dirname(a.outputDir!)), path.join(outputDir, '@external'));
+            assert.strictEqual(path.basename(a.outputDir!), 'main.fjt');
+            assert.notStrictEqual(a.outputDir, b.outputDir);
+        });
+
+        test('Removing a deleted or renamed source deletes its build and cache entry', async () => {
+            await installCompiler(COMPILE);
+            const compiler = new CompilerService(path.join(testDir, 'out'), undefined, testDir);
+            const source = await writeSource('a/main.fjt');
+            const { outputDir } = await compiler.compile(source);
+
+            await compiler.removeArtifacts(source);
+
+            await assert.rejects(fs.access(outputDir!));
+            assert.strictEqual((await compiler.compile(source)).recompileReason, 'notCached');
+        });
+
+        test('Removing a deleted folder deletes the builds of its sources', async () => {
+            await installCompiler(COMPILE);
+            const outputDir = path.join(testDir, 'out');
+            const compiler = new CompilerService(outputDir, undefined, testDir);
+            await compiler.compile(await writeSource('a/main.fjt'));
+            await compiler.compile(await writeSource('b/main.fjt'));
+
+            await compiler.removeArtifacts(path.join(testDir, 'a'));
+
+            await assert.rejects(fs.access(path.join(outputDir, 'a')));
+            await fs.access(path.join(outputDir, 'b', 'main.fjt'));
+        });
+    });
+
+    suite('Precompiled headers', () => {
+        test('Compiles without the header when its directory cannot be written', async () => {
+            // Fails if asked to -include a missing file, like gcc
+            await installCompiler('[ "$1" = "-include" ] && [ ! -f "$2" ] && exit 1\nexit 0');
+            registerLanguage({ precompiledHeader: 'bits/stdc++.h' });
+            const outputDir = path.join(testDir, 'out');
+            await fs.mkdir(outputDir);
+            await fs.writeFile(path.join(outputDir, '@pch'), '');
+            const compiler = new CompilerService(outputDir);
+
+            const result = await compiler.compile(sourcePath);
+
+            assert.strictEqual(result.success, true);
+            assert.strictEqual(result.precompiledHeader, undefined);
+        });
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { findLocalDependencies } from '../core/dependency-scanner';
+
+suite('DependencyScanner Test Suite', () => {
+    let testDir: string;
+
+    const write = async (relativePath: string, content: string): Promise<string> => {
+        const filePath = path.join(testDir, relativePath);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, content);
+        return filePath;
+    };
+
+    setup(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fastjudge-deps-'));
+    });
+
+    teardown(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    test('Follows quoted includes transitively', async () => {
+        const main = await write('main.cpp', '#include <vector>\n#include "lib/graph.h"\nint main() {}\n');
+        const graph = await write('lib/graph.h', '#pragma once\n#include "dsu.h"\n');
+        const dsu = await write('lib/dsu.h', '#pragma once\n#include "graph.h"\n');
+
+        assert.deepStrictEqual(await findLocalDependencies([main], testDir), [graph, dsu]);
+    });
+
+    test('Ignores missing files and files outside the root', async () => {
+        const outside = await write('shared/common.h', '');
+        const main = await write('src/main.cpp', '#include "../shared/common.h"\n#include "missing.h"\n');
+
+        assert.deepStrictEqual(await findLocalDependencies([main], path.join(testDir, 'src')), []);
+        assert.deepStrictEqual(await findLocalDependencies([main], testDir), [outside]);
+    });
+
+    test('Resolves relative JavaScript imports and requires', async () => {
+        const main = await write('main.js', "const io = require('./io');\nimport { solve } from './lib';\nconst fs = require('fs');\n");
+        const io = await write('io.js', '');
+        const lib = await write('lib/index.js', '');
+
+        assert.deepStrictEqual(await findLocalDependencies([main], testDir), [io, lib]);
+    });
+
+    test('Resolves Python modules and packages', async () => {
+        const main = await write('main.py', 'import sys, util\nfrom geometry import point\nfrom .helpers import read\n');
+        const util = await write('util.py', '');
+        const pkg = await write('geometry/__init__.py', '');
+        const point = await write('geometry/point.py', '');
+        const helpers = await write('helpers.py', '');
+
+        assert.deepStrictEqual(await findLocalDependencies([main], testDir), [util, pkg, point, helpers]);
+    });
+
+    test('Does not report the given sources as dependencies', async () => {
+        const main = await write('main.cpp', '#include "helper.h"\n');
+        const helper = await write('helper.cpp', '#include "helper.h"\n');
+        const header = await write('helper.h', '');
+
+        assert.deepStrictEqual(await findLocalDependencies([main, helper], testDir), [header]);
+    });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseCompilerDiagnostics } from '../core/diagnostic-parser';
+
+const DIR = path.join(path.sep, 'work');
+
+const GCC_OUTPUT = `main.cpp: In function 'int main()':
+main.cpp:5:9: warning: unused variable 'y' [-Wunused-variable]
+    5 |     int y;
+      |         ^
+main.cpp:6:5: error: 'x' was not declared in this scope
+    6 |     x = 1;
+      |     ^
+lib/graph.h:3:10: fatal error: dsu.h: No such file or directory
+compilation terminated.
+`;
+
+const JAVAC_OUTPUT = `Main.java:7: error: cannot find symbol
+        int y = x;
+                ^
+  symbol:   variable x
+  location: class Main
+1 error
+`;
+
+const RUSTC_OUTPUT = `warning: unused variable: \`a\`
+ --> main.rs:2:9
+  |
+2 |     let a = 1;
+  |         ^ help: if this is intentional, prefix it with an underscore: \`_a\`
+
+error[E0425]: cannot find value \`x\` in this scope
+ --> main.rs:3:13
+  |
+3 |     let b = x;
+  |             ^ not found in this scope
+`;
+
+suite('Diagnostic Parser Test Suite', () => {
+    test('gcc/clang: file, line, column and severity', () => {
+        const diagnostics = parseCompilerDiagnostics(GCC_OUTPUT, DIR);
+
+        assert.deepStrictEqual(diagnostics, [
+            { file: path.join(DIR, 'main.cpp'), line: 5, column: 9, severity: 'warning', message: "unused variable 'y' [-Wunused-variable]" },
+            { file: path.join(DIR, 'main.cpp'), line: 6, column: 5, severity: 'error', message: "'x' was not declared in this scope" },
+            { file: path.join(DIR, 'lib', 'graph.h'), line: 3, column: 10, severity: 'error', message: 'dsu.h: No such file or directory' },
+        ]);
+    });
+
+    test('javac: takes the column from the caret line', () => {
+        const diagnostics = parseCompilerDiagnostics(JAVAC_OUTPUT, DIR);
+
+        assert.deepStrictEqual(diagnostics, [
+            { file: path.join(DIR, 'Main.java'), line: 7, column: 17, severity: 'error', message: 'cannot find symbol' },
+        ]);
+    });
+
+    test('rustc: location on the following line, with error code', () => {
+        const diagnostics = parseCompilerDiagnostics(RUSTC_OUTPUT, DIR);
+
+        assert.strictEqual(diagnostics.length, 2);
+        assert.strictEqual(diagnostics[0].severity, 'warning');
+        assert.strictEqual(diagnostics[0].line, 2);
+        assert.deepStrictEqual(diagnostics[1], {
+            file: path.join(DIR, 'main.rs'), line: 3, column: 13, severity: 'error', message: 'cannot find value `x` in this scope', code: 'E0425',
+        });
+    });
+
+    test('Custom pattern with named groups', () => {
+        const pattern = '^(?<severity>ERROR|WARN) (?<file>[^(]+)\\((?<line>\\d+)\\): (?<message>.*)$';
+        const output = 'Compiling...\nWARN sol.pas(3): unused label\nERROR sol.pas(10): type mismatch\n';
+
+        const diagnostics = parseCompilerDiagnostics(output, DIR, pattern);
+
+        assert.deepStrictEqual(diagnostics, [
+            { file: path.join(DIR, 'sol.pas'), line: 3, column: undefined, severity: 'warning', message: 'unused label' },
+            { file: path.join(DIR, 'sol.pas'), line: 10, column: undefined, severity: 'error', message: 'type mismatch' },
+        ]);
+    });
+
+    test('Invalid custom pattern yields no diagnostics', () => {
+        assert.deepStrictEqual(parseCompilerDiagnostics('main.x:1: error: bad', DIR, '(unclosed'), []);
+    });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { ExecutorService } from '../core/executor-service';
+
+// The programs are shell scripts run as executables
+(process.platform === 'win32' ? suite.skip : suite)('ExecutorService Test Suite', () => {
+    let testDir: string;
+
+    /** Write an executable shell script (run directly, as it has no known language extension) */
+    const writeScript = async (name: string, script: string) => {
+        const scriptPath = path.join(testDir, name);
+        await fs.writeFile(scriptPath, `#!/bin/sh\n${script}\n`);
+        await fs.chmod(scriptPath, 0o755);
+        return scriptPath;
+    };
+
+    setup(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fastjudge-executor-'));
+    });
+
+    teardown(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    test('Streams the interactor output to files and keeps only a preview', async () => {
+        const solution = await writeScript('solution', 'cat > /dev/null');
+        const interactor = await writeScript('interactor', "head -c 1000000 /dev/zero | tr '\\000' a\necho ok >&2");
+        const interactorStdoutPath = path.join(testDir, 'interactor-stdout.txt');
+        const interactorStderrPath = path.join(testDir, 'interactor-stderr.txt');
+
+        const result = await new ExecutorService(10000).executeInteractive(
+            solution,
+            testDir,
+            { sourcePath: interactor, outputDir: testDir },
+            [],
+            undefined,
+            undefined,
+            { interactorStdoutPath, interactorStderrPath }
+        );
+
+        assert.strictEqual(result.interactor.exitCode, 0);
+        assert.strictEqual(result.interactor.outputTruncated, true);
+        assert.ok(result.interactor.stdout.length < 20000);
+        assert.strictEqual((await fs.stat(interactorStdoutPath)).size, 1000000);
+        assert.strictEqual(result.interactor.stderr, 'ok\n');
+        assert.strictEqual(await fs.readFile(interactorStderrPath, 'utf-8'), 'ok\n');
+    });
+});
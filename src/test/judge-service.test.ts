@@ -1,13 +1,20 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { JudgeService } from '../core/judge-service';
 import { ExecutorService } from '../core/executor-service';
-import { ExecutionResult, TestCaseWithData } from '../types';
+import { ExecuteOptions, ExecutionResult, InteractiveExecutionResult, TestCaseWithData } from '../types';
 
 /**
  * Mock ExecutorService for testing judge logic without actual execution
  */
 class MockExecutorService extends ExecutorService {
     private mockResult: ExecutionResult;
+    private mockInteractiveResult?: InteractiveExecutionResult;
+    private queuedResults: Partial<ExecutionResult>[] = [];
+    lastInputPath?: string;
+    lastOptions?: ExecuteOptions;
 
     constructor() {
         super(2000);
@@ -26,8 +33,60 @@ class MockExecutorService extends ExecutorService {
         this.mockResult = { ...this.mockResult, ...result };
     }
 
-    override async execute(): Promise<ExecutionResult> {
-        return this.mockResult;
+    /** Results of the next runs, before falling back to the mock result */
+    queueMockResults(...results: Partial<ExecutionResult>[]): void {
+        this.queuedResults.push(...results);
+    }
+
+    override async executeWithFile(
+        sourcePath: string,
+        outputDir: string,
+        inputPath: string,
+        language?: string,
+        signal?: AbortSignal,
+        options: ExecuteOptions = {}
+    ): Promise<ExecutionResult> {
+        this.lastInputPath = inputPath;
+        return this.execute(sourcePath, outputDir, '', language, signal, options);
+    }
+
+    override async execute(
+        _sourcePath: string,
+        _outputDir: string,
+        _input: string,
+        _language?: string,
+        _signal?: AbortSignal,
+        options: ExecuteOptions = {}
+    ): Promise<ExecutionResult> {
+        this.lastOptions = options;
+        const queued = this.queuedResults.shift();
+        const result = queued ? { ...this.mockResult, ...queued } : this.mockResult;
+        // Streamed output ends up in the result files, like with the real executor
+        if (options.stdoutPath && options.stderrPath) {
+            await fs.promises.writeFile(options.stdoutPath, result.stdout);
+            await fs.promises.writeFile(options.stderrPath, result.stderr);
+        }
+        return result;
+    }
+
+    setMockInteractiveResult(
+        solution: Partial<ExecutionResult>,
+        interactor: Partial<ExecutionResult>,
+        timedOut = false
+    ): void {
+        this.mockInteractiveResult = {
+            solution: { ...this.mockResult, ...solution },
+            interactor: { ...this.mockResult, ...interactor },
+            transcript: '> 50\n< >\n',
+            transcriptTruncated: false,
+            executionTimeMs: 100,
+            timedOut,
+            aborted: false,
+        };
+    }
+
+    override async executeInteractive(): Promise<InteractiveExecutionResult> {
+        return this.mockInteractiveResult!;
     }
 }
 
@@ -96,6 +155,56 @@ suite('JudgeService Test Suite', () => {
             assert.strictEqual(result.verdict, 'RE');
             assert.strictEqual(result.exitCode, 139);
         });
+
+        test('Returns MLE when memory limit exceeded', async () => {
+            mockExecutor.setMockResult({ memoryLimitExceeded: true, memoryUsageKb: 300000, signal: 'SIGKILL', exitCode: -1 });
+            const testCase = createTestCase('1', '1 2', '42');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase, undefined, undefined, { memoryLimitMb: 256 });
+
+            assert.strictEqual(result.verdict, 'MLE');
+            assert.strictEqual(result.errorMessage, 'Memory Limit Exceeded (>256MB)');
+        });
+
+        test('Returns OLE when output limit exceeded', async () => {
+            mockExecutor.setMockResult({ outputLimitExceeded: true, stdout: '1\n1\n1\n', signal: 'SIGKILL', exitCode: -1 });
+            mockExecutor.setOutputLimit(64);
+            const testCase = createTestCase('1', '1 2', '42');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase);
+
+            assert.strictEqual(result.verdict, 'OLE');
+            assert.strictEqual(result.errorMessage, 'Output Limit Exceeded (>64MB)');
+        });
+
+        test('Returns ILE when timed out while idle', async () => {
+            mockExecutor.setMockResult({ timedOut: true, idlenessLimitExceeded: true, cpuTimeMs: 10, executionTimeMs: 2000 });
+            const testCase = createTestCase('1', '1 2', '42');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase);
+
+            assert.strictEqual(result.verdict, 'ILE');
+            assert.ok(result.errorMessage?.startsWith('Idleness Limit Exceeded'));
+        });
+
+        test('Reports CPU time', async () => {
+            mockExecutor.setMockResult({ stdout: '42', exitCode: 0, cpuTimeMs: 80 });
+            const testCase = createTestCase('1', '1 2', '42');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase);
+
+            assert.strictEqual(result.cpuTimeMs, 80);
+        });
+
+        test('Reports peak memory usage', async () => {
+            mockExecutor.setMockResult({ stdout: '42', exitCode: 0, memoryUsageKb: 3456 });
+            const testCase = createTestCase('1', '1 2', '42');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase);
+
+            assert.strictEqual(result.verdict, 'AC');
+            assert.strictEqual(result.memoryUsageKb, 3456);
+        });
     });
 
     // Comparison Mode Tests
@@ -139,6 +248,112 @@ suite('JudgeService Test Suite', () => {
 
             assert.strictEqual(result.verdict, 'AC');
         });
+
+        test('Float mode: accepts numbers within tolerance', async () => {
+            judge.setComparisonMode('float');
+            mockExecutor.setMockResult({ stdout: '0.3333334 YES\n1e3', exitCode: 0 });
+            const testCase = createTestCase('1', '', '0.333333 YES\n1000.0');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase);
+
+            assert.strictEqual(result.verdict, 'AC');
+        });
+
+        test('Float mode: reports the failing token and its error', async () => {
+            judge.setComparisonMode('float');
+            mockExecutor.setMockResult({ stdout: '1.5\n2.75', exitCode: 0 });
+            const testCase = createTestCase('1', '', '1.5\n2.5');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase);
+
+            assert.strictEqual(result.verdict, 'WA');
+            assert.ok(result.errorMessage?.includes('token 2 (line 2)'));
+            assert.ok(result.errorMessage?.includes('absolute error 2.50e-1'));
+        });
+
+        test('Float mode: compares non-numeric tokens exactly', async () => {
+            judge.setComparisonMode('float');
+            mockExecutor.setMockResult({ stdout: 'yes 1.0', exitCode: 0 });
+            const testCase = createTestCase('1', '', 'YES 1.0');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase);
+
+            assert.strictEqual(result.verdict, 'WA');
+        });
+
+        test('Float mode: respects configured tolerance', async () => {
+            judge.setComparisonMode('float');
+            judge.setFloatTolerance({ absoluteError: 0.01, relativeError: 0 });
+            mockExecutor.setMockResult({ stdout: '3.145', exitCode: 0 });
+            const testCase = createTestCase('1', '', '3.14159');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase);
+
+            assert.strictEqual(result.verdict, 'AC');
+        });
+
+        test('Float mode: detects missing tokens', async () => {
+            judge.setComparisonMode('float');
+            mockExecutor.setMockResult({ stdout: '1 2', exitCode: 0 });
+            const testCase = createTestCase('1', '', '1 2 3');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase);
+
+            assert.strictEqual(result.verdict, 'WA');
+            assert.ok(result.errorMessage?.includes('expected 3 tokens, received 2'));
+        });
+    });
+
+    // Interactive Problem Tests
+    suite('Interactive Problems', () => {
+        const interactor = { sourcePath: 'interactor.cpp', outputDir: '.out' };
+
+        test('Interactor exit code 0 is AC', async () => {
+            mockExecutor.setMockInteractiveResult({ exitCode: 0 }, { exitCode: 0 });
+            const testCase = createTestCase('1', '42', '');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase, undefined, undefined, { interactor });
+
+            assert.strictEqual(result.verdict, 'AC');
+            assert.strictEqual(result.transcript, '> 50\n< >\n');
+        });
+
+        test('Interactor exit code 1 is WA with its message', async () => {
+            mockExecutor.setMockInteractiveResult({ exitCode: 0 }, { exitCode: 1, stderr: 'too many queries' });
+            const testCase = createTestCase('1', '42', '');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase, undefined, undefined, { interactor });
+
+            assert.strictEqual(result.verdict, 'WA');
+            assert.strictEqual(result.errorMessage, 'Wrong Answer: too many queries');
+        });
+
+        test('Solution crash is RE', async () => {
+            mockExecutor.setMockInteractiveResult({ exitCode: 139 }, { exitCode: 1 });
+            const testCase = createTestCase('1', '42', '');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase, undefined, undefined, { interactor });
+
+            assert.strictEqual(result.verdict, 'RE');
+        });
+
+        test('Broken pipe defers to the interactor verdict', async () => {
+            mockExecutor.setMockInteractiveResult({ exitCode: -1, signal: 'SIGPIPE' }, { exitCode: 1 });
+            const testCase = createTestCase('1', '42', '');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase, undefined, undefined, { interactor });
+
+            assert.strictEqual(result.verdict, 'WA');
+        });
+
+        test('Timeout of the pair is TLE', async () => {
+            mockExecutor.setMockInteractiveResult({ signal: 'SIGKILL' }, { signal: 'SIGKILL' }, true);
+            const testCase = createTestCase('1', '42', '');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase, undefined, undefined, { interactor });
+
+            assert.strictEqual(result.verdict, 'TLE');
+        });
     });
 
     // Result Properties Tests
@@ -172,6 +387,145 @@ suite('JudgeService Test Suite', () => {
         });
     });
 
+    // Parallel Judging Tests
+    suite('Parallel Judging', () => {
+        test('Reports each result as it finishes and returns them in test order', async () => {
+            mockExecutor.setMockResult({ stdout: '42', exitCode: 0 });
+            const testCases = ['1', '2', '3'].map(id => createTestCase(id, '', id === '2' ? '41' : '42'));
+            const reported: string[] = [];
+
+            judge.setMaxParallelTests(2);
+            const results = await judge.judgeParallel('test.cpp', '.out', testCases, undefined, undefined, {},
+                (result) => { reported.push(result.testCaseId); });
+
+            assert.deepStrictEqual(results.map(r => [r.testCaseId, r.verdict]), [['1', 'AC'], ['2', 'WA'], ['3', 'AC']]);
+            assert.deepStrictEqual([...reported].sort(), ['1', '2', '3']);
+        });
+    });
+
+    // Benchmark Tests
+    suite('Benchmark', () => {
+        test('Attaches timing statistics of the measured runs', async () => {
+            mockExecutor.setMockResult({ stdout: '42', exitCode: 0, executionTimeMs: 100, memoryUsageKb: 2048 });
+            const testCase = createTestCase('1', '', '42');
+
+            const result = await judge.benchmarkTestCase('test.cpp', '.out', testCase, { runs: 5, warmupRuns: 2 });
+
+            assert.strictEqual(result.verdict, 'AC');
+            assert.strictEqual(result.benchmark?.runs, 5);
+            assert.strictEqual(result.benchmark?.warmupRuns, 2);
+            assert.deepStrictEqual(result.benchmark?.timeMs, { min: 100, median: 100, max: 100, stddev: 0 });
+            assert.strictEqual(result.benchmark?.memoryKb?.median, 2048);
+        });
+
+        test('Does not benchmark tests that fail to run', async () => {
+            mockExecutor.setMockResult({ stdout: '', exitCode: 1 });
+            const testCase = createTestCase('1', '', '42');
+
+            const result = await judge.benchmarkTestCase('test.cpp', '.out', testCase, { runs: 5, warmupRuns: 0 });
+
+            assert.strictEqual(result.verdict, 'RE');
+            assert.strictEqual(result.benchmark, undefined);
+        });
+
+        test('Stops at a run that exceeds the memory limit', async () => {
+            mockExecutor.setMockResult({ stdout: '42', exitCode: 0, executionTimeMs: 100 });
+            // The judged run and one measured run pass, then the limit is hit
+            mockExecutor.queueMockResults({}, {}, { memoryLimitExceeded: true, memoryUsageKb: 300000, signal: 'SIGKILL', exitCode: -1 });
+            const testCase = createTestCase('1', '', '42');
+
+            const result = await judge.benchmarkTestCase('test.cpp', '.out', testCase, { runs: 5, warmupRuns: 0 }, undefined, undefined, { memoryLimitMb: 256 });
+
+            assert.strictEqual(result.verdict, 'AC');
+            assert.strictEqual(result.benchmark?.runs, 1);
+            assert.strictEqual(result.benchmark?.error, 'Run 2 exceeded the memory limit (293MB used)');
+        });
+
+        test('A timed-out run of a sanitizer build reports the scaled limit', async () => {
+            mockExecutor.setMockResult({ stdout: '42', exitCode: 0 });
+            mockExecutor.queueMockResults({}, { timedOut: true, signal: 'SIGKILL', exitCode: -1 });
+            const testCase = createTestCase('1', '', '42');
+
+            const result = await judge.benchmarkTestCase('test.cpp', '.out', testCase, { runs: 3, warmupRuns: 0 }, undefined, undefined, { sanitize: true });
+
+            assert.strictEqual(result.benchmark?.error, 'Run 1 exceeded time limit (>6000ms)');
+        });
+    });
+
+    // Sanitizer Build Tests
+    suite('Sanitizer Builds', () => {
+        const ASAN_REPORT = [
+            '==7==ERROR: AddressSanitizer: heap-buffer-overflow on address 0x6030 at pc 0x55d1 bp 0x7ffc sp 0x7ffc',
+            '    #0 0x55d1 in main /work/test.cpp:12',
+            '',
+            'SUMMARY: AddressSanitizer: heap-buffer-overflow /work/test.cpp:12 in main',
+        ].join('\n');
+
+        test('Runs without the memory limit and with a scaled time limit', async () => {
+            mockExecutor.setMockResult({ stdout: '42', exitCode: 0 });
+            const testCase = createTestCase('1', '', '42');
+
+            await judge.judgeTestCase('test.cpp', '.out', testCase, undefined, undefined, { sanitize: true, memoryLimitMb: 256 });
+
+            assert.strictEqual(mockExecutor.lastOptions?.memoryLimitMb, 0);
+            assert.strictEqual(mockExecutor.lastOptions?.timeLimitFactor, 3);
+        });
+
+        test('Parallel runs of a sanitizer build get the relaxed limits', async () => {
+            mockExecutor.setMockResult({ stdout: '42', exitCode: 0 });
+            const testCases = ['1', '2'].map(id => createTestCase(id, '', '42'));
+
+            judge.setMaxParallelTests(2);
+            await judge.judgeParallel('test.cpp', '.out', testCases, undefined, undefined, { sanitize: true, memoryLimitMb: 256 });
+
+            assert.strictEqual(mockExecutor.lastOptions?.memoryLimitMb, 0);
+            assert.strictEqual(mockExecutor.lastOptions?.timeLimitFactor, 3);
+        });
+
+        test('The sanitizer report reaches the verdict', async () => {
+            // Shadow memory far above the 256MB limit of the regular build
+            mockExecutor.setMockResult({ exitCode: 1, stderr: ASAN_REPORT, memoryUsageKb: 600000 });
+            const testCase = createTestCase('1', '', '42');
+
+            const result = await judge.judgeTestCase('/work/test.cpp', '.out', testCase, undefined, undefined, { sanitize: true, memoryLimitMb: 256 });
+
+            assert.strictEqual(result.verdict, 'RE');
+            assert.strictEqual(result.sanitizer?.kind, 'heap-buffer-overflow');
+            assert.strictEqual(result.errorMessage, 'Runtime Error — heap-buffer-overflow at test.cpp:12 (AddressSanitizer)');
+        });
+
+        test('Time Limit Exceeded reports the scaled limit', async () => {
+            mockExecutor.setMockResult({ timedOut: true });
+            const testCase = createTestCase('1', '', '42');
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase, undefined, undefined, { sanitize: true });
+
+            assert.strictEqual(result.verdict, 'TLE');
+            assert.strictEqual(result.errorMessage, 'Time Limit Exceeded (>6000ms, sanitizer build)');
+        });
+    });
+
+    // Test Data File Tests
+    suite('Test Data Files', () => {
+        test('Streams the input from its data file and compares against the expected file', async () => {
+            const dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'fastjudge-data-'));
+            const inputPath = path.join(dataDir, '1.in');
+            const expectedPath = path.join(dataDir, '1.out');
+            await fs.promises.writeFile(inputPath, '1 2 3');
+            await fs.promises.writeFile(expectedPath, '6\n');
+
+            mockExecutor.setMockResult({ stdout: '6\n', exitCode: 0 });
+            // Previews differ from the files; only the files count
+            const testCase = { ...createTestCase('1', '1 ...', '...'), inputPath, expectedPath, inputTruncated: true, expectedTruncated: true };
+
+            const result = await judge.judgeTestCase('test.cpp', '.out', testCase);
+            await fs.promises.rm(dataDir, { recursive: true, force: true });
+
+            assert.strictEqual(mockExecutor.lastInputPath, inputPath);
+            assert.strictEqual(result.verdict, 'AC');
+        });
+    });
+
     // Multi-line Output Tests
     suite('Multi-line Output', () => {
         test('Handles multi-line correct output', async () => {
@@ -203,5 +557,12 @@ suite('JudgeService Test Suite', () => {
             judge.setComparisonMode('trim');
             assert.strictEqual(judge.getComparisonMode(), 'trim');
         });
+
+        test('Parallelism defaults to one less than the number of cores', () => {
+            assert.strictEqual(judge.getParallelism(), Math.max(os.cpus().length - 1, 1));
+
+            judge.setMaxParallelTests(3);
+            assert.strictEqual(judge.getParallelism(), 3);
+        });
     });
 });
@@ -233,6 +233,65 @@ suite('LanguageRegistry Test Suite', () => {
         });
     });
 
+    suite('Build profiles', () => {
+        const config: LanguageConfig = {
+            name: 'C++',
+            extensions: ['.cpp'],
+            compileArgs: ['g++', '-O2', '${sourceFile}', '-o', '${executableFile}'],
+            runArgs: ['${executableFile}'],
+            profiles: {
+                debug: { compileArgs: ['g++', '-g', '${sourceFile}', '-o', '${executableFile}'] },
+                valgrind: { runArgs: ['valgrind', '${executableFile}'] }
+            }
+        };
+
+        test('Lists the default profile first', () => {
+            const provider = new CustomLanguageProvider('cpp', config);
+
+            assert.deepStrictEqual(provider.getProfiles(), ['default', 'debug', 'valgrind']);
+        });
+
+        test('Uses the profile compileArgs and the base runArgs', () => {
+            const provider = new CustomLanguageProvider('cpp', config);
+
+            const compile = provider.getCompileCommand('/src/main.cpp', '/out', 'debug')!;
+            const run = provider.getRunCommand('/src/main.cpp', '/out', 'debug');
+
+            assert.strictEqual(compile.args[0], '-g');
+            assert.strictEqual(run.command, provider.getExecutablePath('/src/main.cpp', '/out'));
+        });
+
+        test('Uses the profile runArgs and the base compileArgs', () => {
+            const provider = new CustomLanguageProvider('cpp', config);
+
+            const compile = provider.getCompileCommand('/src/main.cpp', '/out', 'valgrind')!;
+            const run = provider.getRunCommand('/src/main.cpp', '/out', 'valgrind');
+
+            assert.strictEqual(compile.args[0], '-O2');
+            assert.strictEqual(run.command, 'valgrind');
+        });
+
+        test('Profiles override or disable the precompiled header', () => {
+            const provider = new CustomLanguageProvider('cpp', {
+                ...config,
+                precompiledHeader: 'bits/stdc++.h',
+                profiles: { debug: { precompiledHeader: '' }, valgrind: {} }
+            });
+
+            assert.strictEqual(provider.getPrecompiledHeader(), 'bits/stdc++.h');
+            assert.strictEqual(provider.getPrecompiledHeader('valgrind'), 'bits/stdc++.h');
+            assert.strictEqual(provider.getPrecompiledHeader('debug'), undefined);
+        });
+
+        test('Falls back to the base arguments for unknown profiles', () => {
+            const provider = new CustomLanguageProvider('cpp', config);
+
+            const compile = provider.getCompileCommand('/src/main.cpp', '/out', 'release')!;
+
+            assert.strictEqual(compile.args[0], '-O2');
+        });
+    });
+
     suite('Extension normalization', () => {
         test('Normalizes extensions to lowercase', () => {
             const config: LanguageConfig = {
@@ -245,4 +304,17 @@ suite('LanguageRegistry Test Suite', () => {
             assert.deepStrictEqual(provider.extensions, ['.cpp', '.cc']);
         });
     });
+
+    suite('Runtime error format', () => {
+        test('Defaults by language ID and can be overridden', () => {
+            const config: LanguageConfig = { name: 'Test', extensions: ['.py'], runArgs: ['python', '${sourceFile}'] };
+
+            assert.strictEqual(new CustomLanguageProvider('python', config).getRuntimeErrorFormat(), 'python');
+            assert.strictEqual(new CustomLanguageProvider('pypy', config).getRuntimeErrorFormat(), undefined);
+            assert.strictEqual(
+                new CustomLanguageProvider('pypy', { ...config, runtimeErrorFormat: 'python' }).getRuntimeErrorFormat(),
+                'python'
+            );
+        });
+    });
 });
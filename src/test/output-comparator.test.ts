@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { compareOutput, compareOutputFiles } from '../core/output-comparator';
+import { OutputCapture } from '../core/output-capture';
+import { ComparisonMode } from '../types';
+
+const MODES: ComparisonMode[] = ['exact', 'trim', 'ignoreWhitespace', 'float'];
+
+// [actual, expected] pairs covering trailing whitespace, blank lines, CRLF and token counts
+const CASES: [string, string][] = [
+    ['1 2 3\n', '1 2 3\n'],
+    ['1 2 3', '1 2 3\n'],
+    ['1 2 3  \n\n\n', '1 2 3'],
+    ['1\r\n2\r\n', '1\n2\n'],
+    ['1\n\n2\n', '1\n2\n'],
+    ['1  2\n3', '1 2 3'],
+    ['', '\n\n'],
+    ['0.1000001 5', '0.1 5'],
+    ['0.2 5', '0.1 5'],
+    ['1 2', '1 2 3'],
+];
+
+suite('Output Comparator Test Suite', () => {
+    let testDir: string;
+
+    const write = async (name: string, content: string): Promise<string> => {
+        const filePath = path.join(testDir, name);
+        await fs.writeFile(filePath, content);
+        return filePath;
+    };
+
+    setup(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fastjudge-compare-'));
+    });
+
+    teardown(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    test('Comparing files gives the same result as comparing strings', async () => {
+        for (const [actual, expected] of CASES) {
+            const actualPath = await write('actual.txt', actual);
+            const expectedPath = await write('expected.txt', expected);
+
+            for (const mode of MODES) {
+                assert.deepStrictEqual(
+                    await compareOutputFiles(actualPath, expectedPath, mode),
+                    compareOutput(actual, expected, mode),
+                    `${mode}: ${JSON.stringify(actual)} vs ${JSON.stringify(expected)}`
+                );
+            }
+        }
+    });
+
+    test('Lines longer than a read chunk', async () => {
+        const line = 'x'.repeat(200 * 1024);
+        const actualPath = await write('actual.txt', `${line}\n${line}y \n`);
+        const expectedPath = await write('expected.txt', `${line}\n${line}y`);
+
+        assert.strictEqual((await compareOutputFiles(actualPath, expectedPath, 'trim')).match, true);
+        assert.strictEqual((await compareOutputFiles(actualPath, expectedPath, 'exact')).match, false);
+    });
+
+    suite('OutputCapture', () => {
+        test('Streams everything to the file and keeps the first and last 5KB', async () => {
+            const filePath = path.join(testDir, 'stdout.txt');
+            const capture = new OutputCapture(Infinity, filePath);
+            const output = 'a'.repeat(8 * 1024) + 'b'.repeat(8 * 1024);
+
+            capture.write(Buffer.from(output.slice(0, 1000)));
+            capture.write(Buffer.from(output.slice(1000)));
+            await capture.close();
+
+            assert.strictEqual(await fs.readFile(filePath, 'utf-8'), output);
+            assert.strictEqual(capture.isTruncated(), true);
+            assert.strictEqual(
+                capture.getText(),
+                `${'a'.repeat(5 * 1024)}\n\n... [6.0 KB truncated] ...\n\n${'b'.repeat(5 * 1024)}`
+            );
+        });
+
+        test('Short output is kept in full', async () => {
+            const capture = new OutputCapture(Infinity, path.join(testDir, 'stdout.txt'));
+
+            capture.write(Buffer.from('42\n'));
+            await capture.close();
+
+            assert.strictEqual(capture.getText(), '42\n');
+            assert.strictEqual(capture.isTruncated(), false);
+        });
+
+        test('Discards output beyond the limit', () => {
+            const capture = new OutputCapture(10);
+
+            assert.strictEqual(capture.write(Buffer.from('12345678')), true);
+            assert.strictEqual(capture.write(Buffer.from('90abcdef')), false);
+
+            assert.strictEqual(capture.getText(), '1234567890');
+            assert.strictEqual(capture.isLimitExceeded(), true);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { PrecompiledHeaderService } from '../core/precompiled-header';
+
+// The fake compiler is a shell script
+(process.platform === 'win32' ? suite.skip : suite)('PrecompiledHeaderService Test Suite', () => {
+    let testDir: string;
+    let outputDir: string;
+    let compilerPath: string;
+    let logPath: string;
+
+    /** Number of header builds the fake compiler ran */
+    const buildCount = async () => (await fs.readFile(logPath, 'utf-8').catch(() => '')).split('\n').filter(Boolean).length;
+
+    const exists = (filePath: string) => fs.access(filePath).then(() => true, () => false);
+
+    setup(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fastjudge-pch-'));
+        outputDir = path.join(testDir, 'out');
+        logPath = path.join(testDir, 'builds.log');
+        // Fake g++: logs the build and writes the file after -o (its last argument); -DFAIL fails
+        compilerPath = path.join(testDir, 'g++');
+        await fs.writeFile(compilerPath, [
+            '#!/bin/sh',
+            'case " $* " in *" -DFAIL "*) echo "fatal error" >&2; exit 1 ;; esac',
+            `echo build >> "${logPath}"`,
+            'for last; do :; done',
+            'echo pch > "$last"',
+        ].join('\n'));
+        await fs.chmod(compilerPath, 0o755);
+    });
+
+    teardown(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    test('Builds once and reuses the precompiled header', async () => {
+        const service = new PrecompiledHeaderService(outputDir);
+        const pch = service.resolve('bits/stdc++.h', compilerPath, ['-O2'], '1.0');
+
+        const first = await service.ensure(pch);
+        const second = await service.ensure(pch);
+        // Another window finds it on disk
+        const third = await new PrecompiledHeaderService(outputDir).ensure(pch);
+
+        assert.strictEqual(first.ready, true);
+        assert.strictEqual(first.built, true);
+        assert.strictEqual(second.built, false);
+        assert.strictEqual(third.ready, true);
+        assert.strictEqual(third.built, false);
+        assert.strictEqual(await buildCount(), 1);
+        assert.strictEqual(await fs.readFile(pch.wrapperPath, 'utf-8'), '#include <bits/stdc++.h>\n');
+    });
+
+    test('A failed build leaves the wrapper for a normal compile and is not retried', async () => {
+        const service = new PrecompiledHeaderService(outputDir);
+        const pch = service.resolve('bits/stdc++.h', compilerPath, ['-DFAIL'], '1.0');
+
+        const first = await service.ensure(pch);
+        const second = await service.ensure(pch);
+
+        assert.strictEqual(first.ready, false);
+        assert.match(first.error!, /fatal error/);
+        assert.strictEqual(second.ready, false);
+        assert.ok(await exists(pch.wrapperPath));
+        assert.ok(!await exists(pch.pchPath));
+    });
+
+    test('An unwritable output directory is reported, not thrown', async () => {
+        // A file where the directory should be
+        await fs.writeFile(outputDir, '');
+        const service = new PrecompiledHeaderService(outputDir);
+        const pch = service.resolve('bits/stdc++.h', compilerPath, [], '1.0');
+
+        const status = await service.ensure(pch);
+
+        assert.strictEqual(status.ready, false);
+        assert.strictEqual(status.wrapperMissing, true);
+        assert.ok(status.error);
+        assert.strictEqual(await buildCount(), 0);
+    });
+
+    test('Keeps only the most recently used precompiled headers', async () => {
+        const service = new PrecompiledHeaderService(outputDir);
+        const pchs = ['-O0', '-O1', '-O2', '-O3', '-Os'].map(flag => service.resolve('bits/stdc++.h', compilerPath, [flag], '1.0'));
+
+        for (const [index, pch] of pchs.entries()) {
+            await service.ensure(pch);
+            // Distinct last-used times, oldest first
+            const usedAt = new Date(Date.now() - (pchs.length - index) * 60000);
+            await fs.utimes(path.dirname(pch.wrapperPath), usedAt, usedAt);
+        }
+
+        const remaining = await fs.readdir(path.join(outputDir, '@pch'));
+        assert.strictEqual(remaining.length, 4);
+        assert.ok(!await exists(pchs[0].pchPath));
+        assert.ok(await exists(pchs[4].pchPath));
+
+        // The evicted one is built again
+        const rebuilt = await service.ensure(pchs[0]);
+        assert.strictEqual(rebuilt.built, true);
+    });
+});
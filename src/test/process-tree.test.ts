@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { ChildProcess } from 'child_process';
+import { killOrphans, killProcessTree, spawnProcessTree } from '../core/process-tree';
+
+const waitForClose = (proc: ChildProcess) => new Promise<void>(resolve => proc.on('close', () => resolve()));
+
+// Process groups are a Unix concept; Windows relies on taskkill /t
+(process.platform === 'win32' ? suite.skip : suite)('Process Tree Test Suite', () => {
+    test('Kills grandchildren that hold the output pipe open', async () => {
+        const proc = spawnProcessTree('sh', ['-c', 'sleep 30 & sleep 30; wait'], { stdio: 'pipe' });
+        const closed = waitForClose(proc);
+
+        const start = Date.now();
+        killProcessTree(proc);
+        await closed;
+
+        // Without killing the group, 'close' waits for the background sleep
+        assert.ok(Date.now() - start < 5000);
+    });
+
+    test('Kills and counts processes left running after exit', async () => {
+        const proc = spawnProcessTree('sh', ['-c', 'sleep 30 & sleep 30 & exit 0'], { stdio: 'pipe' });
+        const closed = waitForClose(proc);
+
+        const orphans = await new Promise<number>(resolve => proc.on('exit', () => resolve(killOrphans(proc))));
+        await closed;
+
+        assert.strictEqual(orphans, 2);
+    });
+
+    test('No orphans after a clean exit', async () => {
+        const proc = spawnProcessTree('sh', ['-c', 'exit 0'], { stdio: 'pipe' });
+
+        const orphans = await new Promise<number>(resolve => proc.on('exit', () => resolve(killOrphans(proc))));
+
+        assert.strictEqual(orphans, 0);
+    });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { ReferenceRunner } from '../core/reference-runner';
+import { JudgeService } from '../core/judge-service';
+import { ExecutorService } from '../core/executor-service';
+import { CompiledProgram, ExecutionResult, TestCaseWithData } from '../types';
+
+/**
+ * Reference solution that doubles its input, crashes on "crash" and hangs on "hang"
+ */
+class MockReferenceExecutor extends ExecutorService {
+    override async execute(
+        _sourcePath: string,
+        _outputDir: string,
+        input: string
+    ): Promise<ExecutionResult> {
+        const base = { stdout: '', stderr: '', exitCode: 0, executionTimeMs: 1, timedOut: false, aborted: false, signal: null };
+        if (input === 'crash') {
+            return { ...base, stdout: 'partial', exitCode: 1 };
+        }
+        if (input === 'hang') {
+            return { ...base, timedOut: true, signal: 'SIGKILL' };
+        }
+        return { ...base, stdout: `${Number(input) * 2}\n` };
+    }
+}
+
+class MockJudgeService extends JudgeService {
+    compileError?: string;
+
+    override async compileProgram(sourcePath: string): Promise<{ program?: CompiledProgram; error?: string }> {
+        if (this.compileError) {
+            return { error: this.compileError };
+        }
+        return { program: { sourcePath, outputDir: '.out' } };
+    }
+}
+
+suite('ReferenceRunner Test Suite', () => {
+    let judge: MockJudgeService;
+    let runner: ReferenceRunner;
+
+    const createTestCase = (id: string, input: string): TestCaseWithData => ({
+        id,
+        name: `Test ${id}`,
+        createdAt: Date.now(),
+        input,
+        expected: '',
+    });
+
+    setup(() => {
+        judge = new MockJudgeService('.out', '.');
+        runner = new ReferenceRunner(judge, new MockReferenceExecutor());
+    });
+
+    test('Returns the reference output for each test', async () => {
+        const { outputs, error } = await runner.run('ref.cpp', [createTestCase('1', '2'), createTestCase('2', '5')]);
+
+        assert.strictEqual(error, undefined);
+        assert.deepStrictEqual(outputs, [
+            { testCaseId: '1', output: '4\n' },
+            { testCaseId: '2', output: '10\n' },
+        ]);
+    });
+
+    test('Reports tests the reference fails instead of its output', async () => {
+        const { outputs } = await runner.run('ref.cpp', [
+            createTestCase('1', 'crash'),
+            createTestCase('2', 'hang'),
+            createTestCase('3', '1'),
+        ]);
+
+        assert.strictEqual(outputs[0].output, undefined);
+        assert.ok(outputs[0].error?.startsWith('Reference solution failed'));
+        assert.strictEqual(outputs[1].output, undefined);
+        assert.ok(outputs[1].error?.startsWith('Reference solution exceeded time limit'));
+        assert.strictEqual(outputs[2].output, '2\n');
+    });
+
+    test('Reports compilation errors', async () => {
+        judge.compileError = 'syntax error';
+
+        const { outputs, error } = await runner.run('ref.cpp', [createTestCase('1', '2')]);
+
+        assert.strictEqual(outputs.length, 0);
+        assert.strictEqual(error, 'Reference solution compilation failed: syntax error');
+    });
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { ResultStorageService } from '../storage/result-storage';
+
+suite('ResultStorageService Test Suite', () => {
+    let testDir: string;
+    let storage: ResultStorageService;
+
+    setup(async () => {
+        testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fastjudge-results-'));
+        storage = new ResultStorageService(testDir);
+        await storage.initialize();
+    });
+
+    teardown(async () => {
+        await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    test('Moving results carries the output files to the new ID', async () => {
+        const { stdoutPath, stderrPath } = await storage.saveResults('stress-1', 'out', 'err');
+        await storage.saveJudgeResult({
+            testCaseId: 'stress-1',
+            verdict: 'WA',
+            executionTimeMs: 1,
+            actualOutput: 'out',
+            expectedOutput: '',
+            stdoutPath,
+            stderrPath,
+        });
+
+        const moved = await storage.moveResults('stress-1', 'saved');
+
+        assert.strictEqual(moved?.testCaseId, 'saved');
+        assert.strictEqual(await fs.readFile(moved!.stdoutPath!, 'utf-8'), 'out');
+        assert.strictEqual(await fs.readFile(moved!.stderrPath!, 'utf-8'), 'err');
+        assert.deepStrictEqual(await storage.loadJudgeResult('saved'), moved);
+        assert.strictEqual(await storage.loadJudgeResult('stress-1'), undefined);
+    });
+
+    test('Moving missing results does nothing', async () => {
+        assert.strictEqual(await storage.moveResults('missing', 'saved'), undefined);
+    });
+});
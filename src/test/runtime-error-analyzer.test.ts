@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { analyzeRuntimeError, formatExceptionReport } from '../core/runtime-error-analyzer';
+
+const DIR = path.join(path.sep, 'work');
+
+const JAVA_OUTPUT = `Exception in thread "main" java.lang.ArrayIndexOutOfBoundsException: Index 5 out of bounds for length 5
+\tat java.base/java.util.Objects.checkIndex(Objects.java:385)
+\tat Main.solve(Main.java:12)
+\tat Main.main(Main.java:7)
+`;
+
+const PYTHON_OUTPUT = `Traceback (most recent call last):
+  File "${path.join(DIR, 'main.py')}", line 2, in <module>
+    helper.go()
+  File "${path.join(DIR, 'helper.py')}", line 3, in go
+    return x[5]
+           ~^^^
+  File "/usr/lib/python3.12/random.py", line 10, in choice
+    return seq[0]
+IndexError: list index out of range
+`;
+
+const NODE_OUTPUT = `${path.join(DIR, 'main.js')}:1
+function f(){ return f(); }
+              ^
+
+RangeError: Maximum call stack size exceeded
+    at f (${path.join(DIR, 'main.js')}:1:15)
+    at f (${path.join(DIR, 'main.js')}:1:22)
+
+Node.js v20.19.5
+`;
+
+const RUST_OUTPUT = `thread 'main' panicked at main.rs:1:87:
+index out of bounds: the len is 3 but the index is 5
+note: run with \`RUST_BACKTRACE=1\` environment variable to display a backtrace
+`;
+
+suite('Runtime Error Analyzer Test Suite', () => {
+    test('Java: exception type and innermost user frame', () => {
+        const report = analyzeRuntimeError(JAVA_OUTPUT, path.join(DIR, 'Main.java'), 'java');
+
+        assert.deepStrictEqual(report, {
+            type: 'java.lang.ArrayIndexOutOfBoundsException',
+            message: 'Index 5 out of bounds for length 5',
+            file: path.join(DIR, 'Main.java'),
+            line: 12,
+        });
+        assert.strictEqual(
+            formatExceptionReport(report!),
+            'ArrayIndexOutOfBoundsException: Index 5 out of bounds for length 5 at Main.java:12'
+        );
+    });
+
+    test('Java: exception without message', () => {
+        const output = 'Exception in thread "main" java.lang.StackOverflowError\n\tat Main.f(Main.java:3)\n';
+        const report = analyzeRuntimeError(output, path.join(DIR, 'Main.java'), 'java');
+
+        assert.strictEqual(formatExceptionReport(report!), 'StackOverflowError at Main.java:3');
+    });
+
+    test('Python: innermost frame in the user\'s files', () => {
+        const report = analyzeRuntimeError(PYTHON_OUTPUT, path.join(DIR, 'main.py'), 'python');
+
+        assert.deepStrictEqual(report, {
+            type: 'IndexError',
+            message: 'list index out of range',
+            file: path.join(DIR, 'helper.py'),
+            line: 3,
+        });
+    });
+
+    test('Python: syntax error without traceback', () => {
+        const output = `  File "${path.join(DIR, 'main.py')}", line 1\n    x = (\n        ^\nSyntaxError: '(' was never closed\n`;
+        const report = analyzeRuntimeError(output, path.join(DIR, 'main.py'), 'python');
+
+        assert.strictEqual(report?.type, 'SyntaxError');
+        assert.strictEqual(report?.line, 1);
+    });
+
+    test('Node.js: error type, message and column', () => {
+        const report = analyzeRuntimeError(NODE_OUTPUT, path.join(DIR, 'main.js'), 'node');
+
+        assert.deepStrictEqual(report, {
+            type: 'RangeError',
+            message: 'Maximum call stack size exceeded',
+            file: path.join(DIR, 'main.js'),
+            line: 1,
+            column: 15,
+        });
+    });
+
+    test('Rust: panic message and location', () => {
+        const report = analyzeRuntimeError(RUST_OUTPUT, path.join(DIR, 'main.rs'), 'rust');
+
+        assert.deepStrictEqual(report, {
+            type: 'panic',
+            message: 'index out of bounds: the len is 3 but the index is 5',
+            file: path.join(DIR, 'main.rs'),
+            line: 1,
+            column: 87,
+        });
+    });
+
+    test('Unknown format or unrecognized output yields no report', () => {
+        assert.strictEqual(analyzeRuntimeError(PYTHON_OUTPUT, path.join(DIR, 'main.cpp'), undefined), undefined);
+        assert.strictEqual(analyzeRuntimeError('Segmentation fault\n', path.join(DIR, 'main.py'), 'python'), undefined);
+    });
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { spawnSync } from 'child_process';
+import { createSandboxedCommand, DEFAULT_SANDBOX_OPTIONS } from '../core/sandbox';
+import { SandboxOptions } from '../types';
+
+// The sandbox relies on prlimit, which only exists on Linux
+(process.platform === 'linux' ? suite : suite.skip)('Sandbox Test Suite', () => {
+    const options: SandboxOptions = {
+        ...DEFAULT_SANDBOX_OPTIONS,
+        enabled: true,
+        stackSizeMb: 16,
+        maxOpenFiles: 32,
+        isolate: false,
+    };
+
+    const run = (script: string, sandboxOptions = options) => {
+        const launch = createSandboxedCommand('sh', ['-c', script], sandboxOptions);
+        const result = spawnSync(launch.command, launch.args, { cwd: launch.cwd, encoding: 'utf-8' });
+        return { launch, stdout: result.stdout.trim().split('\n') };
+    };
+
+    test('Applies the resource limits', () => {
+        const { launch, stdout } = run('ulimit -s; ulimit -n');
+        launch.dispose();
+
+        assert.deepStrictEqual(stdout, [String(16 * 1024), '32']);
+    });
+
+    test('Stack size 0 is unlimited', () => {
+        const { launch, stdout } = run('ulimit -s', { ...options, stackSizeMb: 0 });
+        launch.dispose();
+
+        assert.deepStrictEqual(stdout, ['unlimited']);
+    });
+
+    test('Runs in a temporary working directory removed on dispose', () => {
+        const { launch, stdout } = run('pwd; touch scratch');
+
+        assert.strictEqual(stdout[0], fs.realpathSync(launch.cwd));
+        assert.ok(launch.cwd.startsWith(os.tmpdir()));
+        assert.ok(fs.existsSync(path.join(launch.cwd, 'scratch')));
+
+        launch.dispose();
+        assert.strictEqual(fs.existsSync(launch.cwd), false);
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { formatSanitizerReport, parseSanitizerReport } from '../core/sanitizer-parser';
+
+const SOURCE = path.join(path.sep, 'work', 'main.cpp');
+
+const HEAP_OVERFLOW = `=================================================================
+==12032==ERROR: AddressSanitizer: heap-buffer-overflow on address 0x603000000068 at pc 0x55817d6fea8b bp 0x7ffdeebf7b00 sp 0x7ffdeebf7af8
+WRITE of size 4 at 0x603000000068 thread T0
+    #0 0x55817d6fea8a in std::vector<int, std::allocator<int> >::operator[](unsigned long) /usr/include/c++/12/bits/stl_vector.h:1124
+    #1 0x55817d6fea8a in main ${SOURCE}:42
+    #2 0x7fa6f5445249  (/lib/x86_64-linux-gnu/libc.so.6+0x27249)
+
+0x603000000068 is located 20 bytes to the right of 20-byte region [0x603000000040,0x603000000054)
+allocated by thread T0 here:
+    #0 0x7fa6f56b94c8 in operator new(unsigned long) ../../../../src/libsanitizer/asan/asan_new_delete.cpp:95
+    #1 0x55817d6fe44e in main ${SOURCE}:40
+
+SUMMARY: AddressSanitizer: heap-buffer-overflow /usr/include/c++/12/bits/stl_vector.h:1124 in main
+==12032==ABORTING
+`;
+
+suite('Sanitizer Parser Test Suite', () => {
+    test('AddressSanitizer: uses the first frame in the source file', () => {
+        const report = parseSanitizerReport(HEAP_OVERFLOW, SOURCE);
+
+        assert.strictEqual(report?.sanitizer, 'AddressSanitizer');
+        assert.strictEqual(report?.kind, 'heap-buffer-overflow');
+        assert.strictEqual(report?.file, SOURCE);
+        assert.strictEqual(report?.line, 42);
+        assert.strictEqual(formatSanitizerReport(report!), 'heap-buffer-overflow at main.cpp:42 (AddressSanitizer)');
+    });
+
+    test('AddressSanitizer: falls back to the summary location', () => {
+        const stderr = [
+            '==7==ERROR: AddressSanitizer: SEGV on unknown address 0x000000000000 (pc 0x55d1 bp 0x7ffc sp 0x7ffc T0)',
+            '    #0 0x55d1 in solve() /work/lib.h:7',
+            '',
+            'SUMMARY: AddressSanitizer: SEGV /work/lib.h:7 in solve()',
+        ].join('\n');
+
+        const report = parseSanitizerReport(stderr, SOURCE);
+
+        assert.strictEqual(report?.kind, 'SEGV');
+        assert.strictEqual(report?.file, path.resolve('/work/lib.h'));
+        assert.strictEqual(report?.line, 7);
+    });
+
+    test('UBSan: resolves the relative location against the source directory', () => {
+        const stderr = "main.cpp:3:70: runtime error: signed integer overflow: 1 + 2147483647 cannot be represented in type 'int'\n";
+
+        const report = parseSanitizerReport(stderr, SOURCE);
+
+        assert.strictEqual(report?.sanitizer, 'UndefinedBehaviorSanitizer');
+        assert.strictEqual(report?.kind, 'signed integer overflow');
+        assert.strictEqual(report?.file, SOURCE);
+        assert.strictEqual(report?.line, 3);
+        assert.strictEqual(report?.column, 70);
+    });
+
+    test('Returns undefined without a sanitizer report', () => {
+        assert.strictEqual(parseSanitizerReport('terminate called after throwing an instance of std::bad_alloc', SOURCE), undefined);
+    });
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { aggregateVerdict, computeScore, dependsOn } from '../core/scoring';
+import { JudgeResult, TestCase, TestGroup, Verdict } from '../types';
+
+function testCase(id: string, groupId?: string): TestCase {
+    return { id, name: id, createdAt: 0, groupId };
+}
+
+function results(verdicts: Record<string, Verdict>): Map<string, JudgeResult> {
+    return new Map(Object.entries(verdicts).map(([id, verdict]) => [
+        id,
+        { testCaseId: id, verdict, executionTimeMs: 0, actualOutput: '', expectedOutput: '' },
+    ]));
+}
+
+suite('Scoring Test Suite', () => {
+    const groups: TestGroup[] = [
+        { id: 'g1', name: 'Subtask 1', points: 20 },
+        { id: 'g2', name: 'Subtask 2', points: 30, dependencies: ['g1'] },
+        { id: 'g3', name: 'Subtask 3', points: 50, dependencies: ['g2'] },
+    ];
+    const testCases = [
+        testCase('a', 'g1'),
+        testCase('b', 'g2'),
+        testCase('c', 'g2'),
+        testCase('d', 'g3'),
+        testCase('e'),
+    ];
+
+    test('Passed groups earn their points', () => {
+        const report = computeScore(groups, testCases, results({ a: 'AC', b: 'AC', c: 'AC', d: 'AC', e: 'WA' }));
+
+        assert.strictEqual(report.total, 100);
+        assert.strictEqual(report.maxTotal, 100);
+        assert.ok(report.groups.every(g => g.passed && g.verdict === 'AC'));
+    });
+
+    test('A failing test fails its group', () => {
+        const report = computeScore(groups, testCases, results({ a: 'AC', b: 'AC', c: 'TLE', d: 'AC' }));
+        const [, second] = report.groups;
+
+        assert.strictEqual(second.verdict, 'TLE');
+        assert.strictEqual(second.earned, 0);
+        assert.strictEqual(second.passedCount, 1);
+        assert.strictEqual(second.testCount, 2);
+    });
+
+    test('Groups only score when their dependencies pass', () => {
+        const report = computeScore(groups, testCases, results({ a: 'WA', b: 'AC', c: 'AC', d: 'AC' }));
+
+        assert.deepStrictEqual(report.groups.map(g => g.earned), [0, 0, 0]);
+        assert.strictEqual(report.groups[1].verdict, 'AC');
+        assert.deepStrictEqual(report.groups[1].blockedBy, ['Subtask 1']);
+        assert.deepStrictEqual(report.groups[2].blockedBy, ['Subtask 2']);
+        assert.strictEqual(report.total, 0);
+    });
+
+    test('Empty groups and dependency cycles never pass', () => {
+        const cyclic: TestGroup[] = [
+            { id: 'x', name: 'X', points: 10, dependencies: ['y'] },
+            { id: 'y', name: 'Y', points: 10, dependencies: ['x'] },
+            { id: 'z', name: 'Z', points: 10 },
+        ];
+        const report = computeScore(cyclic, [testCase('a', 'x'), testCase('b', 'y')], results({ a: 'AC', b: 'AC' }));
+
+        assert.deepStrictEqual(report.groups.map(g => g.passed), [false, false, false]);
+        assert.strictEqual(report.groups[2].verdict, 'PENDING');
+    });
+
+    test('Aggregated verdict prefers failures over pending tests', () => {
+        assert.strictEqual(aggregateVerdict(['AC', 'PENDING', 'WA']), 'WA');
+        assert.strictEqual(aggregateVerdict(['AC', 'STOPPED']), 'STOPPED');
+        assert.strictEqual(aggregateVerdict(['WA', 'RUNNING']), 'RUNNING');
+        assert.strictEqual(aggregateVerdict([]), 'PENDING');
+    });
+
+    test('Transitive dependencies are detected', () => {
+        assert.strictEqual(dependsOn(groups, 'g3', 'g1'), true);
+        assert.strictEqual(dependsOn(groups, 'g1', 'g3'), false);
+    });
+});
@@ -0,0 +1,167 @@
+import * as assert from 'assert';
+import { StressTester } from '../core/stress-tester';
+import { JudgeService } from '../core/judge-service';
+import { ExecutorService } from '../core/executor-service';
+import { CompileResult, CompiledProgram, ExecutionResult, JudgeResult, TestCaseWithData } from '../types';
+
+/**
+ * Generator, validator and brute force: the generator prints its seed,
+ * the validator accepts inputs below 4 and the brute force echoes its input
+ */
+class MockHelperExecutor extends ExecutorService {
+    failingSeed?: number;
+
+    override async execute(
+        sourcePath: string,
+        _outputDir: string,
+        input: string,
+        _language?: string,
+        _signal?: AbortSignal,
+        options: { args?: string[] } = {}
+    ): Promise<ExecutionResult> {
+        const base = { stderr: '', executionTimeMs: 1, timedOut: false, aborted: false, signal: null };
+        if (sourcePath === 'gen.cpp') {
+            const seed = Number(options.args![0]);
+            return { ...base, stdout: `${seed}\n`, exitCode: seed === this.failingSeed ? 1 : 0 };
+        }
+        if (sourcePath === 'val.cpp') {
+            return Number(input) < 4 ? { ...base, stdout: '', exitCode: 0 } : { ...base, stdout: '', stderr: 'n > 3', exitCode: 3 };
+        }
+        return { ...base, stdout: input, exitCode: 0 };
+    }
+}
+
+/**
+ * Judge whose solution fails on a given input
+ */
+class MockJudgeService extends JudgeService {
+    wrongInput?: string;
+    judged: TestCaseWithData[] = [];
+    deleted: string[] = [];
+
+    override async compile(): Promise<CompileResult> {
+        return { success: true, outputDir: '.out', compilationTimeMs: 0 };
+    }
+
+    override async compileProgram(sourcePath: string): Promise<{ program?: CompiledProgram; error?: string }> {
+        return { program: { sourcePath, outputDir: '.out' } };
+    }
+
+    override async judgeTestCase(
+        _sourcePath: string,
+        _outputDir: string,
+        testCase: TestCaseWithData
+    ): Promise<JudgeResult> {
+        this.judged.push(testCase);
+        return {
+            testCaseId: testCase.id,
+            verdict: testCase.input === this.wrongInput ? 'WA' : 'AC',
+            executionTimeMs: 1,
+            actualOutput: '',
+            expectedOutput: testCase.expected,
+        };
+    }
+
+    override async deleteResults(testCaseId: string): Promise<void> {
+        this.deleted.push(testCaseId);
+    }
+}
+
+suite('StressTester Test Suite', () => {
+    let judge: MockJudgeService;
+    let executor: MockHelperExecutor;
+    let tester: StressTester;
+
+    const programs = { generator: 'gen.cpp', bruteForce: 'brute.cpp' };
+
+    setup(() => {
+        judge = new MockJudgeService('.out', '.');
+        executor = new MockHelperExecutor();
+        tester = new StressTester(judge, executor);
+    });
+
+    test('Stops at the first failing test', async () => {
+        judge.wrongInput = '3\n';
+
+        const result = await tester.run('sol.cpp', programs);
+
+        assert.strictEqual(result.status, 'found');
+        assert.strictEqual(result.iterations, 3);
+        assert.strictEqual(result.seed, 3);
+        assert.strictEqual(result.input, '3\n');
+        assert.strictEqual(result.expected, '3\n');
+        assert.strictEqual(result.judgeResult?.verdict, 'WA');
+    });
+
+    test('Passes after the maximum number of iterations', async () => {
+        const progress: number[] = [];
+
+        const result = await tester.run('sol.cpp', programs, {
+            maxIterations: 5,
+            onProgress: (p) => progress.push(p.iteration),
+        });
+
+        assert.strictEqual(result.status, 'passed');
+        assert.strictEqual(result.iterations, 5);
+        assert.deepStrictEqual(progress, [1, 2, 3, 4, 5]);
+    });
+
+    test('Seeds start at startSeed', async () => {
+        await tester.run('sol.cpp', programs, { maxIterations: 2, startSeed: 10 });
+
+        assert.deepStrictEqual(judge.judged.map(tc => tc.input), ['10\n', '11\n']);
+    });
+
+    test('Reports generator failures', async () => {
+        executor.failingSeed = 2;
+
+        const result = await tester.run('sol.cpp', programs);
+
+        assert.strictEqual(result.status, 'error');
+        assert.strictEqual(result.seed, 2);
+        assert.ok(result.error?.startsWith('Generator failed'));
+    });
+
+    test('Stops when the generator produces an invalid input', async () => {
+        const result = await tester.run('sol.cpp', { ...programs, validator: 'val.cpp' });
+
+        assert.strictEqual(result.status, 'error');
+        assert.strictEqual(result.seed, 4);
+        assert.strictEqual(result.iterations, 3);
+        assert.strictEqual(result.error, 'Generator produced an invalid input: n > 3');
+    });
+
+    test('Each run stores its results under its own ID', async () => {
+        await tester.run('sol.cpp', programs, { maxIterations: 2 });
+        await tester.run('other.cpp', programs, { maxIterations: 1 });
+
+        const ids = judge.judged.map(tc => tc.id);
+        assert.strictEqual(ids[0], ids[1]);
+        assert.notStrictEqual(ids[0], ids[2]);
+    });
+
+    test('Keeps only the results of a failing test', async () => {
+        await tester.run('sol.cpp', programs, { maxIterations: 2 });
+        judge.wrongInput = '1\n';
+        const found = await tester.run('sol.cpp', programs);
+
+        assert.deepStrictEqual(judge.deleted, [judge.judged[0].id]);
+        assert.notStrictEqual(found.judgeResult?.testCaseId, judge.deleted[0]);
+    });
+
+    test('Requires a generator and a brute force', async () => {
+        const result = await tester.run('sol.cpp', { generator: 'gen.cpp' });
+
+        assert.strictEqual(result.status, 'error');
+        assert.strictEqual(result.iterations, 0);
+    });
+
+    test('Stops when aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        const result = await tester.run('sol.cpp', programs, {}, controller.signal);
+
+        assert.strictEqual(result.status, 'stopped');
+    });
+});
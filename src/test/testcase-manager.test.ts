@@ -174,4 +174,104 @@ suite('TestCaseManager Test Suite', () => {
         assert.strictEqual(tests1.length, 1);
         assert.strictEqual(tests2.length, 1);
     });
+
+    test('Get test case with data includes data file paths', async () => {
+        const filePath = path.join(testDir, 'solution.cpp');
+
+        const testCase = await manager.addTestCase(filePath, '1', '2');
+        const withData = await manager.getTestCaseWithData(filePath, testCase.id);
+
+        assert.ok(withData);
+        assert.strictEqual(withData.inputPath, path.join(testDir, '.fastjudge', 'data', `${testCase.id}.in`));
+        assert.strictEqual(withData.expectedPath, path.join(testDir, '.fastjudge', 'data', `${testCase.id}.out`));
+    });
+
+    test('Large data files are loaded as previews', async () => {
+        const filePath = path.join(testDir, 'solution.cpp');
+        const input = '1 '.repeat(50 * 1024);
+
+        const testCase = await manager.addTestCase(filePath, input, '42');
+        const withData = await manager.getTestCaseWithData(filePath, testCase.id);
+
+        assert.ok(withData);
+        assert.strictEqual(withData.inputTruncated, true);
+        assert.ok(withData.input.length < 11 * 1024);
+        assert.ok(withData.input.includes('truncated'));
+        assert.strictEqual(withData.expectedTruncated, false);
+        assert.strictEqual(withData.expected, '42');
+        // The full data stays on disk for the judge
+        assert.strictEqual(await fs.readFile(withData.inputPath!, 'utf-8'), input);
+    });
+
+    test('Linked programs are stored relative to workspace', async () => {
+        const filePath = path.join(testDir, 'solution.cpp');
+        const checkerPath = path.join(testDir, 'checkers', 'chk.cpp');
+
+        await manager.setLinkedProgram(filePath, 'checker', checkerPath);
+
+        assert.deepStrictEqual(manager.getLinkedPrograms(filePath), { checker: checkerPath });
+
+        const indexPath = path.join(testDir, '.fastjudge', 'index.json');
+        const index = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+        assert.strictEqual(index.settings['solution.cpp'].programs.checker, path.join('checkers', 'chk.cpp'));
+    });
+
+    test('Clearing the last linked program removes file settings', async () => {
+        const filePath = path.join(testDir, 'solution.cpp');
+
+        await manager.setLinkedProgram(filePath, 'checker', path.join(testDir, 'chk.cpp'));
+        await manager.setLinkedProgram(filePath, 'checker', undefined);
+
+        assert.deepStrictEqual(manager.getLinkedPrograms(filePath), {});
+        assert.deepStrictEqual(manager.getFileSettings(filePath), {});
+    });
+
+    test('Extra sources are stored relative to workspace', async () => {
+        const filePath = path.join(testDir, 'solution.cpp');
+        const helperPath = path.join(testDir, 'lib', 'helper.cpp');
+
+        await manager.setExtraSources(filePath, [helperPath]);
+        assert.deepStrictEqual(manager.getExtraSources(filePath), [helperPath]);
+        assert.deepStrictEqual(manager.getFileSettings(filePath).extraSources, [path.join('lib', 'helper.cpp')]);
+
+        await manager.setExtraSources(filePath, []);
+        assert.deepStrictEqual(manager.getFileSettings(filePath), {});
+    });
+
+    test('Groups are added and updated', async () => {
+        const filePath = path.join(testDir, 'solution.cpp');
+
+        const first = await manager.addGroup(filePath, 'Subtask 1', 30);
+        const second = await manager.addGroup(filePath, 'Subtask 2', 70, [first.id]);
+        await manager.updateGroup(filePath, second.id, { points: 60, dependencies: [] });
+
+        assert.deepStrictEqual(manager.getGroups(filePath), [
+            { id: first.id, name: 'Subtask 1', points: 30 },
+            { id: second.id, name: 'Subtask 2', points: 60 },
+        ]);
+    });
+
+    test('Test cases are assigned to existing groups only', async () => {
+        const filePath = path.join(testDir, 'solution.cpp');
+        const group = await manager.addGroup(filePath, 'Subtask 1', 100);
+        const testCase = await manager.addTestCase(filePath, '1', '1');
+
+        assert.strictEqual(await manager.setTestCaseGroup(filePath, testCase.id, 'missing'), false);
+        assert.strictEqual(await manager.setTestCaseGroup(filePath, testCase.id, group.id), true);
+
+        assert.strictEqual(manager.getTestCases(filePath)[0].groupId, group.id);
+    });
+
+    test('Deleting a group ungroups its tests and drops dependencies on it', async () => {
+        const filePath = path.join(testDir, 'solution.cpp');
+        const first = await manager.addGroup(filePath, 'Subtask 1', 30);
+        const second = await manager.addGroup(filePath, 'Subtask 2', 70, [first.id]);
+        const testCase = await manager.addTestCase(filePath, '1', '1');
+        await manager.setTestCaseGroup(filePath, testCase.id, first.id);
+
+        await manager.deleteGroup(filePath, first.id);
+
+        assert.strictEqual(manager.getTestCases(filePath)[0].groupId, undefined);
+        assert.deepStrictEqual(manager.getGroups(filePath), [{ id: second.id, name: 'Subtask 2', points: 70 }]);
+    });
 });
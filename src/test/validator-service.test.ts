@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { ValidatorService } from '../core/validator-service';
+import { ExecutorService } from '../core/executor-service';
+import { CompiledProgram, ExecutionResult } from '../types';
+
+/**
+ * Validator that accepts a single integer between 1 and 10
+ */
+class MockValidatorExecutor extends ExecutorService {
+    override async execute(
+        _sourcePath: string,
+        _outputDir: string,
+        input: string
+    ): Promise<ExecutionResult> {
+        const base = { stdout: '', stderr: '', exitCode: 0, executionTimeMs: 1, timedOut: false, aborted: false, signal: null };
+        if (input === 'hang') {
+            return { ...base, timedOut: true, signal: 'SIGKILL', exitCode: -1 };
+        }
+        if (input === 'oom') {
+            return { ...base, memoryLimitExceeded: true, signal: 'SIGKILL', exitCode: -1 };
+        }
+        if (input === 'missing') {
+            return { ...base, exitCode: -1, stderr: 'Execution error: spawn val ENOENT' };
+        }
+        const n = Number(input.trim());
+        if (!(n >= 1 && n <= 10)) {
+            return { ...base, exitCode: 3, stderr: `FAIL n is out of range [1, 10]: ${input.trim()}\n` };
+        }
+        return base;
+    }
+}
+
+suite('ValidatorService Test Suite', () => {
+    const validatorProgram: CompiledProgram = { sourcePath: 'val.cpp', outputDir: '.out' };
+    let validator: ValidatorService;
+
+    setup(() => {
+        validator = new ValidatorService(new MockValidatorExecutor());
+    });
+
+    test('Accepts valid input', async () => {
+        const result = await validator.validate(validatorProgram, '5\n');
+        assert.strictEqual(result.valid, true);
+        assert.strictEqual(result.error, undefined);
+    });
+
+    test('Rejects invalid input with the validator message', async () => {
+        const result = await validator.validate(validatorProgram, '42\n');
+        assert.strictEqual(result.valid, false);
+        assert.strictEqual(result.message, 'FAIL n is out of range [1, 10]: 42');
+        assert.strictEqual(result.error, undefined);
+    });
+
+    test('Reports validator timeouts as errors', async () => {
+        const result = await validator.validate(validatorProgram, 'hang');
+        assert.strictEqual(result.valid, false);
+        assert.ok(result.error?.startsWith('Validator exceeded time limit'));
+    });
+
+    test('Reports validators killed at the memory limit as errors', async () => {
+        const result = await validator.validate(validatorProgram, 'oom');
+        assert.strictEqual(result.valid, false);
+        assert.strictEqual(result.error, 'Validator exceeded the memory limit');
+    });
+
+    test('Reports validators that could not start as errors, not invalid inputs', async () => {
+        const result = await validator.validate(validatorProgram, 'missing');
+        assert.strictEqual(result.valid, false);
+        assert.strictEqual(result.message, '');
+        assert.strictEqual(result.error, 'Validator could not be run: Execution error: spawn val ENOENT');
+    });
+});
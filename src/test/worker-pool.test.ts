@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { runWithConcurrency } from '../core/worker-pool';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+suite('Worker Pool Test Suite', () => {
+    test('Never runs more tasks at once than the concurrency', async () => {
+        let running = 0;
+        let peak = 0;
+
+        await runWithConcurrency([...Array(10).keys()], 3, async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await delay(5);
+            running--;
+        });
+
+        assert.strictEqual(peak, 3);
+    });
+
+    test('Returns results in item order', async () => {
+        // Later items finish first
+        const results = await runWithConcurrency([30, 20, 10, 0], 4, async (ms, index) => {
+            await delay(ms);
+            return index;
+        });
+
+        assert.deepStrictEqual(results, [0, 1, 2, 3]);
+    });
+
+    test('Runs one at a time with a concurrency below 1', async () => {
+        const order: string[] = [];
+
+        await runWithConcurrency(['a', 'b'], 0, async (item) => {
+            order.push(`start ${item}`);
+            await delay(1);
+            order.push(`end ${item}`);
+        });
+
+        assert.deepStrictEqual(order, ['start a', 'end a', 'start b', 'end b']);
+    });
+});
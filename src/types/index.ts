@@ -13,7 +13,13 @@ export type TestCaseId = string;
 export type Language = string;
 
 /** Comparison modes for output matching */
-export type ComparisonMode = 'exact' | 'trim' | 'ignoreWhitespace';
+export type ComparisonMode = 'exact' | 'trim' | 'ignoreWhitespace' | 'float';
+
+/** Allowed error for numeric tokens in 'float' comparison mode */
+export interface FloatTolerance {
+    absoluteError: number;
+    relativeError: number;
+}
 
 // ============================================================================
 // Verdicts
@@ -24,7 +30,10 @@ export type Verdict =
     | 'AC'       // ✅ Accepted
     | 'WA'       // ❌ Wrong Answer
     | 'TLE'      // ⏱️ Time Limit Exceeded
-    | 'MLE'      // 📦 Memory Limit Exceeded (v2)
+    | 'MLE'      // 📦 Memory Limit Exceeded
+    | 'ILE'      // 💤 Idleness Limit Exceeded
+    | 'OLE'      // 🖨️ Output Limit Exceeded
+    | 'INVALID'  // 🚫 Test input rejected by the validator
     | 'RE'       // 💥 Runtime Error
     | 'CE'       // 🔨 Compilation Error
     | 'IE'       // ⚠️ Internal Error
@@ -43,12 +52,27 @@ export interface TestCase {
     id: TestCaseId;
     name?: string;        // Optional, auto-generates "Test 1", "Test 2"...
     createdAt: number;    // Unix timestamp
+    groupId?: string;     // Test group (subtask) this test belongs to
+}
+
+/** Group of test cases scored together (IOI-style subtask) */
+export interface TestGroup {
+    id: string;
+    name: string;
+    points: number;          // Awarded only if every test in the group passes
+    dependencies?: string[]; // Group IDs that must also pass for this group to score
 }
 
 /** Test case with loaded input/output data */
 export interface TestCaseWithData extends TestCase {
     input: string;
     expected: string;
+    // Data file paths (set when loaded from storage)
+    inputPath?: string;
+    expectedPath?: string;
+    // Set when input/expected hold only the start and end of a large data file
+    inputTruncated?: boolean;
+    expectedTruncated?: boolean;
 }
 
 // ============================================================================
@@ -58,19 +82,40 @@ export interface TestCaseWithData extends TestCase {
 /** Test execution mode */
 export type ExecutionMode = 'sequential' | 'sequential-live' | 'parallel';
 
+/** Which clock the time limit applies to */
+export type TimeLimitMode = 'wall' | 'cpu';
+
 /** Result of code execution */
 export interface ExecutionResult {
-    stdout: string;
-    stderr: string;
+    stdout: string;                  // Full output, or the first and last 5KB when streamed to stdoutPath
+    stderr: string;                  // Likewise for stderrPath
     exitCode: number;
-    executionTimeMs: number;
+    executionTimeMs: number;         // Wall-clock time from spawn to exit
+    cpuTimeMs?: number;              // User + system CPU time of the process tree (Linux only)
     timedOut: boolean;
+    idlenessLimitExceeded?: boolean; // Timed out while mostly idle (e.g., waiting for input)
     aborted: boolean;
     signal: NodeJS.Signals | null;
+    memoryUsageKb?: number;          // Peak resident memory of the process tree (Linux only)
+    memoryLimitExceeded?: boolean;   // Killed for exceeding the memory limit
+    orphanedProcesses?: number;      // Processes left running after the program exited (killed)
+    outputLimitExceeded?: boolean;   // Killed for exceeding the output limit
     // File storage for large outputs
     stdoutPath?: string;
     stderrPath?: string;
-    outputTruncated?: boolean;
+    outputTruncated?: boolean;       // stdout is incomplete (preview window or output limit)
+    stderrTruncated?: boolean;
+}
+
+/** Result of running a solution against an interactor */
+export interface InteractiveExecutionResult {
+    solution: ExecutionResult;
+    interactor: ExecutionResult;
+    transcript: string;           // Lines sent by the solution ("> ") and the interactor ("< ")
+    transcriptTruncated: boolean;
+    executionTimeMs: number;
+    timedOut: boolean;
+    aborted: boolean;
 }
 
 /** Result of compilation */
@@ -80,6 +125,105 @@ export interface CompileResult {
     error?: string;
     compilationTimeMs: number;
     cached?: boolean;  // True if compilation was skipped (cache hit)
+    recompileReason?: RecompileReason;  // Why the cached build was not reused
+    precompiledHeader?: string;  // Header that was included precompiled
+    timeSavedMs?: number;        // Estimated compile time saved by the precompiled header
+    diagnostics?: CompilerDiagnostic[];  // Errors and warnings parsed from the compiler output
+    timedOut?: boolean;  // The compiler was stopped for exceeding the compile time limit
+    aborted?: boolean;   // The compile was cancelled (e.g., Stop in the panel)
+}
+
+export type CompilerDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/** Error or warning reported by a compiler */
+export interface CompilerDiagnostic {
+    file: string;        // Absolute path
+    line: number;        // 1-based
+    column?: number;     // 1-based
+    severity: CompilerDiagnosticSeverity;
+    message: string;
+    code?: string;       // e.g. rustc's "E0425"
+}
+
+/** Why a source file was compiled instead of reusing its cached build */
+export type RecompileReason =
+    | 'notCached'         // No build of this source and profile yet
+    | 'sourceChanged'     // The source, an extra source or a local dependency changed
+    | 'commandChanged'    // The compile command or its arguments changed
+    | 'toolchainChanged'  // The compiler's version changed
+    | 'outputMissing';    // The cached binary was deleted
+
+/** Options selecting how a source file is built */
+export interface CompileOptions {
+    profile?: string;    // Build profile; languages without it use their default profile
+    sanitize?: boolean;  // C/C++ only: build with AddressSanitizer and UBSan into a separate cache entry
+    extraSources?: string[];  // Absolute paths of additional sources compiled together with the main source
+    signal?: AbortSignal;     // Cancels a running compile (not part of the build's identity)
+}
+
+/** A compiled (or interpreted) program ready to be executed */
+export interface CompiledProgram {
+    sourcePath: string;
+    outputDir: string;
+    language?: Language;
+}
+
+/** Per-run options for executing a program */
+export interface ExecuteOptions {
+    args?: string[];         // Extra command-line arguments appended to the run command
+    memoryLimitMb?: number;  // Overrides the executor's memory limit (0 = no limit)
+    timeLimitFactor?: number;  // Multiplies the executor's time limit (e.g., for slower sanitizer builds)
+    profile?: string;        // Build profile whose runArgs are used
+    stdoutPath?: string;     // Stream stdout to this file, keeping only a preview in memory
+    stderrPath?: string;     // Stream stderr to this file, keeping only a preview in memory
+    interactorStdoutPath?: string;  // Interactive runs: stream the interactor's stdout to this file
+    interactorStderrPath?: string;  // Interactive runs: stream the interactor's stderr to this file
+}
+
+/** Per-run options for judging test cases */
+export interface JudgeOptions {
+    checker?: CompiledProgram;     // Custom checker replacing output comparison
+    interactor?: CompiledProgram;  // Interactor for interactive problems
+    validator?: CompiledProgram;   // Input validator run before judging
+    memoryLimitMb?: number;        // Per-file memory limit (e.g., imported from Competitive Companion)
+    sanitize?: boolean;            // Build the solution with sanitizers (judgeAll)
+    profile?: string;              // Build profile of the solution
+    extraSources?: string[];       // Additional sources compiled with the solution (judgeAll)
+}
+
+/** Output of the reference solution for one test case */
+export interface ReferenceOutput {
+    testCaseId: TestCaseId;
+    output?: string;          // Set when the reference solution succeeded
+    error?: string;           // Why the reference solution failed (RE/TLE)
+}
+
+/** Options for a stress test run */
+export interface StressTestOptions {
+    maxIterations?: number;   // Give up after this many passing tests
+    startSeed?: number;       // Seed passed to the generator on the first iteration
+    memoryLimitMb?: number;   // Per-file memory limit for the solution
+    profile?: string;         // Build profile of the solution
+    extraSources?: string[];  // Additional sources compiled with the solution
+    onProgress?: (progress: StressTestProgress) => void;
+}
+
+/** Progress of a running stress test */
+export interface StressTestProgress {
+    iteration: number;
+    elapsedMs: number;
+}
+
+/** Outcome of a stress test run */
+export interface StressTestResult {
+    status: 'found' | 'passed' | 'stopped' | 'error';
+    iterations: number;       // Number of tests the solution was judged on
+    elapsedMs: number;
+    seed?: number;            // Generator seed of the failing test
+    input?: string;
+    expected?: string;        // Brute-force output
+    judgeResult?: JudgeResult;
+    error?: string;           // Why the run could not continue (status 'error')
 }
 
 /** Result of judging a single test case */
@@ -87,7 +231,9 @@ export interface JudgeResult {
     testCaseId: TestCaseId;
     verdict: Verdict;
     executionTimeMs: number;
-    memoryUsageKb?: number;  // v2 implementation
+    cpuTimeMs?: number;      // CPU time (Linux only)
+    memoryUsageKb?: number;  // Peak resident memory (Linux only)
+    orphanedProcesses?: number;  // Background processes killed after the program exited (Unix)
 
     // Output comparison (may be truncated for UI)
     actualOutput: string;
@@ -103,8 +249,62 @@ export interface JudgeResult {
     signal?: NodeJS.Signals | null;      // Parsed signal name (e.g., 'SIGSEGV', 'ACCESS_VIOLATION')
     stderr?: string;      // Raw error output for debugging
 
-    // For CE/IE/RE/TLE
+    sanitizer?: SanitizerReport;  // Parsed AddressSanitizer/UBSan report (sanitizer builds)
+    exception?: ExceptionReport;  // Uncaught exception or panic parsed from stderr (Java, Python, Node.js, Rust)
+
+    // For CE/IE/RE/TLE/MLE/ILE/OLE/INVALID
     errorMessage?: string;  // Human-readable error summary
+    validatorMessage?: string;  // Validator's explanation of why the input is invalid
+
+    // For interactive problems
+    transcript?: string;    // Interaction between solution and interactor (may be truncated)
+
+    benchmark?: BenchmarkResult;  // Set by the Benchmark action
+}
+
+/** Options for benchmarking test cases */
+export interface BenchmarkOptions {
+    runs: number;        // Measured runs per test
+    warmupRuns: number;  // Runs before measuring, discarded (disk cache, JIT)
+}
+
+/** Distribution of a measurement over the benchmark runs */
+export interface BenchmarkStats {
+    min: number;
+    median: number;
+    max: number;
+    stddev: number;      // Sample standard deviation
+}
+
+/** Time and memory of a test over repeated runs */
+export interface BenchmarkResult {
+    runs: number;               // Measured runs completed
+    warmupRuns: number;
+    timeMs?: BenchmarkStats;    // Wall time (missing when no measured run completed)
+    memoryKb?: BenchmarkStats;  // Peak memory (Linux only)
+    error?: string;             // Why the benchmark stopped early (a run failed)
+}
+
+/** Uncaught exception or panic that ended a program */
+export interface ExceptionReport {
+    type: string;        // e.g. "java.lang.ArrayIndexOutOfBoundsException", "RecursionError", "panic"
+    message: string;
+    file?: string;       // Absolute path of the user's source file where it was raised
+    line?: number;
+    column?: number;
+}
+
+/** Error output formats understood by the runtime error analyzer */
+export type RuntimeErrorFormat = 'java' | 'python' | 'node' | 'rust';
+
+/** Error reported by AddressSanitizer or UndefinedBehaviorSanitizer */
+export interface SanitizerReport {
+    sanitizer: string;   // e.g. "AddressSanitizer"
+    kind: string;        // e.g. "heap-buffer-overflow", "signed integer overflow"
+    message: string;     // First line of the report
+    file?: string;       // Absolute path of the faulting source file
+    line?: number;
+    column?: number;
 }
 
 // ============================================================================
@@ -118,6 +318,27 @@ export interface LanguageConfig {
     compileArgs?: string[];
     runArgs: string[];
     outputExtension?: string;  // e.g., '.class' for Java. Defaults to platform binary (.exe on Windows)
+    profiles?: Record<string, LanguageProfile>;  // Named build profiles (e.g., 'debug')
+    precompiledHeader?: string;  // gcc/clang only: header to precompile and include in every compile (e.g., 'bits/stdc++.h')
+    diagnosticPattern?: string;  // Regex with named groups file, line, column, severity and message for compiler output
+    runtimeErrorFormat?: RuntimeErrorFormat;  // How uncaught exceptions in stderr are parsed (defaults by language ID)
+}
+
+/** Restrictions for programs run in the sandbox (Linux only) */
+export interface SandboxOptions {
+    enabled: boolean;
+    stackSizeMb: number;     // 0 = unlimited
+    maxProcesses: number;    // Processes and threads a program may add to those already running (0 = no limit)
+    maxFileSizeMb: number;   // Largest file a program may write (0 = no limit)
+    maxOpenFiles: number;    // 0 = system default
+    isolate: boolean;        // No network and a read-only filesystem via bubblewrap, when installed
+}
+
+/** Build profile overriding a language's compile and/or run arguments */
+export interface LanguageProfile {
+    compileArgs?: string[];    // Defaults to the language's compileArgs
+    runArgs?: string[];        // Defaults to the language's runArgs
+    precompiledHeader?: string;  // Defaults to the language's precompiledHeader ('' disables it)
 }
 
 /** Interface for language providers */
@@ -135,22 +356,81 @@ export interface ILanguageProvider {
      * Get the shell command and arguments to compile the file.
      * Returns null if the language doesn't require compilation.
      */
-    getCompileCommand(sourcePath: string, outputDir: string): { command: string; args: string[] } | null;
+    getCompileCommand(sourcePath: string, outputDir: string, profile?: string): { command: string; args: string[] } | null;
 
     /** 
      * Get the shell command and arguments to run the file.
      */
-    getRunCommand(sourcePath: string, outputDir: string): { command: string; args: string[] };
+    getRunCommand(sourcePath: string, outputDir: string, profile?: string): { command: string; args: string[] };
+
+    /**
+     * Names of the build profiles, starting with the default profile
+     */
+    getProfiles(): string[];
+
+    /**
+     * Header to precompile for a profile, if any
+     */
+    getPrecompiledHeader(profile?: string): string | undefined;
+
+    /**
+     * Regex parsing the compiler's diagnostics, if not gcc/clang/javac/rustc style
+     */
+    getDiagnosticPattern(): string | undefined;
+
+    /**
+     * Format of uncaught exceptions in the program's stderr, if known
+     */
+    getRuntimeErrorFormat(): RuntimeErrorFormat | undefined;
 }
 
 // ============================================================================
 // Storage
 // ============================================================================
 
+/** Role of a helper program attached to a source file */
+export type ProgramRole = 'checker' | 'interactor' | 'generator' | 'bruteForce' | 'reference' | 'validator';
+
+/** Helper programs attached to a source file, keyed by role */
+export type LinkedPrograms = Partial<Record<ProgramRole, string>>;
+
+/** Per-file settings (stored in index.json next to the test cases) */
+export interface FileSettings {
+    programs?: LinkedPrograms;  // Workspace-relative source paths
+    memoryLimitMb?: number;     // Overrides fastjudge.general.memoryLimitMb
+    groups?: TestGroup[];       // Test groups in display order
+    extraSources?: string[];    // Workspace-relative sources compiled together with the file
+}
+
 /** Storage index structure */
 export interface StorageIndex {
     version: number;
     files: Record<string, TestCase[]>;  // filepath -> test cases
+    settings?: Record<string, FileSettings>;  // filepath -> per-file settings
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/** Score of a single test group */
+export interface GroupScore {
+    groupId: string;
+    name: string;
+    points: number;
+    earned: number;
+    verdict: Verdict;        // Aggregated verdict of the group's tests
+    passed: boolean;         // All tests accepted and all dependencies passed
+    blockedBy?: string[];    // Names of dependency groups that did not pass
+    testCount: number;
+    passedCount: number;
+}
+
+/** Scores of all groups of a file */
+export interface ScoreReport {
+    groups: GroupScore[];
+    total: number;
+    maxTotal: number;
 }
 
 // ============================================================================
@@ -160,15 +440,25 @@ export interface StorageIndex {
 /** Cache entry for compiled files */
 export interface CacheEntry {
     contentHash: string;
+    commandHash?: string;       // Hash of the resolved compile command and arguments
+    toolchainVersion?: string;  // First line of "<compiler> --version"
     outputDir: string;
     executablePath?: string;  // Path to compiled binary, used for cache validation
     compiledAt: number;
+    lastUsedAt?: number;      // Last compile that reused the build (defaults to compiledAt)
+    sizeBytes?: number;       // Size of the compiled binary, used for eviction
 }
 
-/** Abstract cache interface - extensible for disk persistence */
+/** Abstract cache interface (in memory or persisted to disk) */
 export interface ICompilationCache {
-    get(filePath: string): CacheEntry | undefined;
-    set(filePath: string, entry: CacheEntry): void;
-    delete(filePath: string): void;
-    clear(): void;
+    get(filePath: string): Promise<CacheEntry | undefined>;
+    set(filePath: string, entry: CacheEntry): Promise<void>;
+    delete(filePath: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/** When builds are evicted from a persistent cache (0 = no limit) */
+export interface CacheLimits {
+    maxSizeMb: number;   // Total size of cached binaries
+    maxAgeDays: number;  // Time since a build was last used
 }
@@ -0,0 +1,76 @@
+/**
+ * FastJudge Build Profile Status
+ * Shows and switches the active build profile from the status bar.
+ * The item is visible only for files whose language defines profiles.
+ */
+
+import * as vscode from 'vscode';
+import { languageRegistry, DEFAULT_PROFILE } from '../core/language-registry';
+import { getBuildProfile, setBuildProfile } from '../config/settings';
+
+export class BuildProfileStatus {
+    private statusBarItem: vscode.StatusBarItem;
+
+    constructor() {
+        this.statusBarItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Right,
+            99
+        );
+        this.statusBarItem.command = 'fastjudge.selectBuildProfile';
+    }
+
+    /**
+     * Show the profile used for the active file
+     */
+    update(): void {
+        const filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+        const provider = filePath ? languageRegistry.detectProvider(filePath) : undefined;
+        const profiles = provider?.getProfiles() ?? [];
+
+        if (!provider || profiles.length < 2) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const active = getBuildProfile();
+        const used = profiles.includes(active) ? active : DEFAULT_PROFILE;
+        this.statusBarItem.text = `$(tools) ${used}`;
+        this.statusBarItem.tooltip = `FastJudge: ${provider.name} build profile (click to change)`;
+        this.statusBarItem.show();
+    }
+
+    /**
+     * Pick the active profile among those of the active file's language
+     * (or of all languages when no source file is open)
+     */
+    async select(): Promise<void> {
+        const filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+        const provider = filePath ? languageRegistry.detectProvider(filePath) : undefined;
+        const providers = provider ? [provider] : languageRegistry.getAllProviders();
+        const profiles = [...new Set(providers.flatMap(p => p.getProfiles()))];
+
+        if (profiles.length < 2) {
+            vscode.window.showInformationMessage(
+                'No build profiles configured. Add "profiles" to a language in fastjudge.languages.'
+            );
+            return;
+        }
+
+        const active = getBuildProfile();
+        const selected = await vscode.window.showQuickPick(
+            profiles.map(name => ({
+                label: name,
+                description: name === active ? 'active' : undefined,
+            })),
+            { placeHolder: 'Select build profile' }
+        );
+
+        if (selected && selected.label !== active) {
+            await setBuildProfile(selected.label);
+        }
+    }
+
+    dispose(): void {
+        this.statusBarItem.dispose();
+    }
+}
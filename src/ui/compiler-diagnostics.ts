@@ -0,0 +1,101 @@
+/**
+ * FastJudge Compiler Diagnostics
+ * Publishes compiler errors and warnings to the Problems panel and as squiggles.
+ *
+ * Diagnostics are kept per compiled source and replaced whenever that source is
+ * compiled again. A file can receive diagnostics from several compiles (e.g. a
+ * header shared by the solution and its checker), so each file shows the
+ * diagnostics of all compiles that reported on it. Cached builds keep the
+ * diagnostics of the compile that produced them.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CompileResult, CompilerDiagnostic, CompilerDiagnosticSeverity } from '../types';
+
+const SEVERITIES: Record<CompilerDiagnosticSeverity, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information,
+};
+
+export class CompilerDiagnostics {
+    private collection: vscode.DiagnosticCollection;
+    /** Diagnostics of the latest compile of each source */
+    private bySource = new Map<string, CompilerDiagnostic[]>();
+
+    constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection('fastjudge');
+    }
+
+    /**
+     * Replace the diagnostics of a source with those of its latest compile
+     */
+    update(sourcePath: string, result: CompileResult): void {
+        if (result.cached) {
+            return;
+        }
+
+        const previous = this.bySource.get(sourcePath) ?? [];
+        const diagnostics = result.diagnostics ?? [];
+        if (diagnostics.length > 0) {
+            this.bySource.set(sourcePath, diagnostics);
+        } else {
+            this.bySource.delete(sourcePath);
+        }
+
+        this.refresh([...previous, ...diagnostics].map(d => d.file));
+    }
+
+    /**
+     * Forget the diagnostics of a deleted or renamed source file or folder
+     */
+    remove(targetPath: string): void {
+        const files: string[] = [];
+        for (const [sourcePath, diagnostics] of this.bySource) {
+            if (sourcePath === targetPath || sourcePath.startsWith(targetPath + path.sep)) {
+                this.bySource.delete(sourcePath);
+                files.push(...diagnostics.map(d => d.file));
+            }
+        }
+        this.refresh(files);
+    }
+
+    dispose(): void {
+        this.collection.dispose();
+    }
+
+    /**
+     * Republish the given files from all sources' diagnostics
+     */
+    private refresh(files: string[]): void {
+        for (const file of new Set(files)) {
+            const diagnostics = [...this.bySource.values()]
+                .flat()
+                .filter(d => d.file === file)
+                .map(toVSCodeDiagnostic);
+
+            const uri = vscode.Uri.file(file);
+            if (diagnostics.length > 0) {
+                this.collection.set(uri, diagnostics);
+            } else {
+                this.collection.delete(uri);
+            }
+        }
+    }
+}
+
+function toVSCodeDiagnostic(d: CompilerDiagnostic): vscode.Diagnostic {
+    const line = Math.max(d.line - 1, 0);
+    // Without a column the whole line is marked; an empty range is widened to the word at the column
+    const range = d.column
+        ? new vscode.Range(line, d.column - 1, line, d.column - 1)
+        : new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+
+    const diagnostic = new vscode.Diagnostic(range, d.message, SEVERITIES[d.severity]);
+    diagnostic.source = 'FastJudge';
+    if (d.code) {
+        diagnostic.code = d.code;
+    }
+    return diagnostic;
+}
@@ -4,17 +4,49 @@
 
 import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { TestCard } from './components/TestCard';
+import { GroupHeader } from './components/GroupHeader';
 import { useVSCode } from './hooks/useVSCode';
-import { TestCaseWithResult, ExtensionMessage, Verdict } from './types';
-import { PlayIcon, PlusIcon, ChevronDownIcon, ChevronRightIcon, SquareIcon, TrashIcon } from './components/Icons';
+import {
+    TestCaseWithResult,
+    ExtensionMessage,
+    Verdict,
+    LinkedProgram,
+    StressProgressMessage,
+    TestGroup,
+    ScoreReport,
+    ParallelRunInfo
+} from './types';
+import {
+    PlayIcon,
+    PlusIcon,
+    ChevronDownIcon,
+    ChevronRightIcon,
+    SquareIcon,
+    TrashIcon,
+    XIcon,
+    BugIcon,
+    SpinnerIcon,
+    WandIcon,
+    LayersIcon,
+    ShieldIcon,
+    WarningIcon,
+    GaugeIcon
+} from './components/Icons';
 import './styles.css';
 
 // Verdicts that should auto-expand
-const ERROR_VERDICTS: Verdict[] = ['WA', 'RE', 'TLE', 'CE', 'IE'];
+const ERROR_VERDICTS: Verdict[] = ['WA', 'RE', 'TLE', 'MLE', 'ILE', 'OLE', 'CE', 'IE', 'INVALID'];
 
 export function App() {
     const [filePath, setFilePath] = useState<string>('FastJudge');
     const [testCases, setTestCases] = useState<TestCaseWithResult[]>([]);
+    const [programs, setPrograms] = useState<LinkedProgram[]>([]);
+    const [extraSources, setExtraSources] = useState<LinkedProgram[]>([]);
+    const [groups, setGroups] = useState<TestGroup[]>([]);
+    const [score, setScore] = useState<ScoreReport | undefined>(undefined);
+    const [sanitizable, setSanitizable] = useState(false);
+    const [parallelRun, setParallelRun] = useState<ParallelRunInfo | undefined>(undefined);
+    const [stress, setStress] = useState<StressProgressMessage | null>(null);
     const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
 
     const prevTestCasesRef = useRef<TestCaseWithResult[]>([]);
@@ -74,10 +106,24 @@ export function App() {
                 prevTestCasesRef.current = message.testCases;
                 setFilePath(message.filePath);
                 setTestCases(message.testCases);
+                setPrograms(message.programs ?? []);
+                setExtraSources(message.extraSources ?? []);
+                setGroups(message.groups ?? []);
+                setScore(message.score);
+                setSanitizable(message.sanitizable);
+                setParallelRun(message.parallelRun);
+                break;
+            case 'stressProgress':
+                setStress(message.running ? message : null);
                 break;
             case 'noFile':
                 setFilePath('No file open');
                 setTestCases([]);
+                setPrograms([]);
+                setGroups([]);
+                setScore(undefined);
+                setSanitizable(false);
+                setParallelRun(undefined);
                 setExpandedIds(new Set());
                 prevTestCasesRef.current = [];
                 prevFilePathRef.current = '';
@@ -87,6 +133,7 @@ export function App() {
 
     const {
         runAll,
+        runAllSanitized,
         runSingle,
         addTestCase,
         deleteTestCase,
@@ -94,8 +141,18 @@ export function App() {
         refresh,
         openFile,
         viewDiff,
+        openLocation,
         stopAll,
-        deleteAll
+        deleteAll,
+        clearProgram,
+        removeExtraSource,
+        stressTest,
+        generateExpected,
+        benchmark,
+        addGroup,
+        editGroup,
+        deleteGroup,
+        setTestGroup
     } = useVSCode(handleMessage);
 
     useEffect(() => {
@@ -128,14 +185,49 @@ export function App() {
         }
     };
 
+    const canStressTest = programs.some(p => p.role === 'generator') && programs.some(p => p.role === 'bruteForce');
+    const hasReference = programs.some(p => p.role === 'reference');
+
     const allExpanded = testCases.length > 0 && expandedIds.size === testCases.length;
     const allPassed = hasResults && passedCount === totalCount;
 
+    // Cards keep their position in the full list as their number
+    const renderCard = (tc: TestCaseWithResult) => (
+        <TestCard
+            key={tc.id}
+            testCase={tc}
+            index={testCases.indexOf(tc)}
+            onRun={runSingle}
+            onDelete={deleteTestCase}
+            onUpdate={updateTestCase}
+            isExpanded={expandedIds.has(tc.id)}
+            onToggle={toggleExpand}
+            onViewFull={openFile}
+            onViewDiff={viewDiff}
+            onOpenLocation={openLocation}
+            onGenerateExpected={hasReference ? (id) => generateExpected([id]) : undefined}
+            onBenchmark={(id) => benchmark([id])}
+            groups={groups}
+            onSetGroup={setTestGroup}
+        />
+    );
+
+    const groupIds = new Set(groups.map(g => g.id));
+    const ungrouped = testCases.filter(tc => !tc.groupId || !groupIds.has(tc.groupId));
+
     return (
         <div className="app">
             {/* Header with filename and pass count */}
             <div className="header">
                 <h2 className="file-name">{filePath}</h2>
+                {score && (
+                    <span
+                        className={`pass-count score ${score.total === score.maxTotal && hasResults ? 'all-passed' : ''}`}
+                        title="Score from test groups"
+                    >
+                        {score.total}/{score.maxTotal} pts
+                    </span>
+                )}
                 {totalCount > 0 && (
                     <span className={`pass-count ${allPassed ? 'all-passed' : hasResults ? 'some-failed' : ''}`}>
                         {passedCount}/{totalCount}
@@ -143,6 +235,76 @@ export function App() {
                 )}
             </div>
 
+            {/* Helper programs attached to this file */}
+            {(programs.length > 0 || extraSources.length > 0) && (
+                <div className="linked-programs">
+                    {programs.map(program => (
+                        <div key={program.role} className="linked-program">
+                            <span className="linked-program-label">{program.label}:</span>
+                            <button
+                                className="btn-link linked-program-name"
+                                onClick={() => openFile(program.path)}
+                                title={program.path}
+                            >
+                                {program.fileName}
+                            </button>
+                            <button
+                                className="btn-icon"
+                                onClick={() => clearProgram(program.role)}
+                                title={`Remove ${program.label}`}
+                            >
+                                <XIcon size={10} />
+                            </button>
+                        </div>
+                    ))}
+                    {extraSources.map(source => (
+                        <div key={source.path} className="linked-program">
+                            <span className="linked-program-label">{source.label}:</span>
+                            <button
+                                className="btn-link linked-program-name"
+                                onClick={() => openFile(source.path)}
+                                title={source.path}
+                            >
+                                {source.fileName}
+                            </button>
+                            <button
+                                className="btn-icon"
+                                onClick={() => removeExtraSource(source.path)}
+                                title={`Stop compiling ${source.fileName} with this file`}
+                            >
+                                <XIcon size={10} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Stress test progress */}
+            {stress && (
+                <div className="stress-status">
+                    <SpinnerIcon size={12} className="spinner" />
+                    <span className="stress-status-text">
+                        Stress testing: {stress.iteration} passed, {(stress.elapsedMs / 1000).toFixed(1)}s
+                    </span>
+                    <button className="btn-icon" onClick={stopAll} title="Stop Stress Test">
+                        <SquareIcon size={10} />
+                    </button>
+                </div>
+            )}
+
+            {/* Timings of tests judged side by side */}
+            {parallelRun && (
+                <div
+                    className="contention-warning"
+                    title="Tests judged at the same time share CPU cores, caches and memory bandwidth. Lower fastjudge.general.maxParallelTests or use a sequential mode for reliable timings."
+                >
+                    <WarningIcon size={12} />
+                    <span className="contention-warning-text">
+                        Ran {parallelRun.concurrency} tests at once on {parallelRun.cores} {parallelRun.cores === 1 ? 'core' : 'cores'}: times may be inflated by contention
+                    </span>
+                </div>
+            )}
+
             {/* Scrollable Test Cases List */}
             <div className="test-cases">
                 {testCases.length === 0 ? (
@@ -150,21 +312,25 @@ export function App() {
                         No test cases yet.<br />
                         Click "+ Add Test Case" below to create one.
                     </div>
+                ) : score ? (
+                    <>
+                        {score.groups.map(groupScore => (
+                            <div key={groupScore.groupId} className="test-group">
+                                <GroupHeader score={groupScore} onEdit={editGroup} onDelete={deleteGroup} />
+                                {testCases.filter(tc => tc.groupId === groupScore.groupId).map(renderCard)}
+                            </div>
+                        ))}
+                        {ungrouped.length > 0 && (
+                            <div className="test-group">
+                                <div className="group-header ungrouped">
+                                    <span className="group-name">Ungrouped</span>
+                                </div>
+                                {ungrouped.map(renderCard)}
+                            </div>
+                        )}
+                    </>
                 ) : (
-                    testCases.map((tc, index) => (
-                        <TestCard
-                            key={tc.id}
-                            testCase={tc}
-                            index={index}
-                            onRun={runSingle}
-                            onDelete={deleteTestCase}
-                            onUpdate={updateTestCase}
-                            isExpanded={expandedIds.has(tc.id)}
-                            onToggle={toggleExpand}
-                            onViewFull={openFile}
-                            onViewDiff={viewDiff}
-                        />
-                    ))
+                    testCases.map(renderCard)
                 )}
             </div>
 
@@ -173,12 +339,37 @@ export function App() {
                 <button className="toolbar-btn-icon" onClick={runAll} title="Run All Tests">
                     <PlayIcon size={16} />
                 </button>
+                {sanitizable && (
+                    <button className="toolbar-btn-icon" onClick={runAllSanitized} title="Run All Tests with Sanitizers">
+                        <ShieldIcon size={16} />
+                    </button>
+                )}
                 <button className="toolbar-btn-icon" onClick={stopAll} title="Stop All">
                     <SquareIcon size={16} />
                 </button>
+                <button className="toolbar-btn-icon" onClick={() => benchmark()} title="Benchmark All Tests">
+                    <GaugeIcon size={16} />
+                </button>
+                {hasReference && (
+                    <button
+                        className="toolbar-btn-icon"
+                        onClick={() => generateExpected()}
+                        title="Generate Empty Expected Outputs from Reference"
+                    >
+                        <WandIcon size={16} />
+                    </button>
+                )}
+                {canStressTest && (
+                    <button className="toolbar-btn-icon" onClick={stressTest} title="Stress Test">
+                        <BugIcon size={16} />
+                    </button>
+                )}
                 <button className="toolbar-btn-icon" onClick={handleAdd} title="Add Test Case">
                     <PlusIcon size={16} />
                 </button>
+                <button className="toolbar-btn-icon" onClick={addGroup} title="Add Test Group">
+                    <LayersIcon size={16} />
+                </button>
                 <button className="toolbar-btn-icon" onClick={deleteAll} title="Delete All Test Cases">
                     <TrashIcon size={16} />
                 </button>
@@ -0,0 +1,42 @@
+/**
+ * GroupHeader Component - Test group (subtask) title with aggregated verdict and score
+ */
+
+import React from 'react';
+import { GroupScore } from '../types';
+import { PencilIcon, TrashIcon } from './Icons';
+import { VerdictBadge } from './VerdictBadge';
+
+interface GroupHeaderProps {
+    score: GroupScore;
+    onEdit: (groupId: string) => void;
+    onDelete: (groupId: string) => void;
+}
+
+export function GroupHeader({ score, onEdit, onDelete }: GroupHeaderProps) {
+    const scoreClass = score.passed ? 'passed' : score.verdict === 'PENDING' ? '' : 'failed';
+
+    return (
+        <div className="group-header">
+            <div className="group-title">
+                <span className="group-name" title={score.name}>{score.name}</span>
+                <VerdictBadge verdict={score.verdict} />
+                <span className="time">{score.passedCount}/{score.testCount}</span>
+                <span className={`group-points ${scoreClass}`}>
+                    {score.earned}/{score.points} pts
+                </span>
+            </div>
+            <div className="header-actions">
+                <button className="btn-icon" onClick={() => onEdit(score.groupId)} title="Edit Group">
+                    <PencilIcon size={12} />
+                </button>
+                <button className="btn-icon" onClick={() => onDelete(score.groupId)} title="Delete Group">
+                    <TrashIcon size={12} />
+                </button>
+            </div>
+            {score.blockedBy && (
+                <div className="group-blocked">Requires {score.blockedBy.join(', ')}</div>
+            )}
+        </div>
+    );
+}
@@ -119,6 +119,89 @@ export const ClockIcon: React.FC<IconProps> = ({ size = 16, className, strokeWid
     </svg>
 );
 
+// Memory chip icon (MLE)
+export const MemoryIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
+    <svg
+        width={size}
+        height={size}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <rect x="4" y="4" width="16" height="16" rx="2" />
+        <rect x="9" y="9" width="6" height="6" />
+        <line x1="9" y1="1" x2="9" y2="4" />
+        <line x1="15" y1="1" x2="15" y2="4" />
+        <line x1="9" y1="20" x2="9" y2="23" />
+        <line x1="15" y1="20" x2="15" y2="23" />
+        <line x1="20" y1="9" x2="23" y2="9" />
+        <line x1="20" y1="15" x2="23" y2="15" />
+        <line x1="1" y1="9" x2="4" y2="9" />
+        <line x1="1" y1="15" x2="4" y2="15" />
+    </svg>
+);
+
+// Hourglass icon (ILE)
+export const HourglassIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
+    <svg
+        width={size}
+        height={size}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <path d="M5 22h14" />
+        <path d="M5 2h14" />
+        <path d="M17 22v-4.17a2 2 0 0 0-.59-1.42L12 12l-4.41 4.41A2 2 0 0 0 7 17.83V22" />
+        <path d="M7 2v4.17a2 2 0 0 0 .59 1.42L12 12l4.41-4.41A2 2 0 0 0 17 6.17V2" />
+    </svg>
+);
+
+// Printer icon (OLE)
+export const PrinterIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
+    <svg
+        width={size}
+        height={size}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <polyline points="6 9 6 2 18 2 18 9" />
+        <path d="M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2" />
+        <rect x="6" y="14" width="12" height="8" />
+    </svg>
+);
+
+// Ban icon (Invalid Input)
+export const BanIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
+    <svg
+        width={size}
+        height={size}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <circle cx="12" cy="12" r="10" />
+        <line x1="4.93" y1="4.93" x2="19.07" y2="19.07" />
+    </svg>
+);
+
 // AlertTriangle icon (RE/IE)
 export const WarningIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
     <svg
@@ -277,3 +360,125 @@ export const SquareIcon: React.FC<IconProps> = ({ size = 16, className }) => (
         <rect x="4" y="4" width="16" height="16" rx="2" />
     </svg>
 );
+
+// Bug icon (Stress Test)
+export const BugIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
+    <svg
+        width={size}
+        height={size}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <rect x="8" y="6" width="8" height="14" rx="4" />
+        <path d="M19 7l-3 2" />
+        <path d="M5 7l3 2" />
+        <path d="M19 19l-3-2" />
+        <path d="M5 19l3-2" />
+        <path d="M20 13h-4" />
+        <path d="M4 13h4" />
+        <path d="M10 4l1 2" />
+        <path d="M14 4l-1 2" />
+    </svg>
+);
+
+// Wand icon (Generate Expected Output)
+export const WandIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
+    <svg
+        width={size}
+        height={size}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <path d="M15 4V2" />
+        <path d="M15 16v-2" />
+        <path d="M8 9h2" />
+        <path d="M20 9h2" />
+        <path d="M17.8 11.8L19 13" />
+        <path d="M15 9h.01" />
+        <path d="M17.8 6.2L19 5" />
+        <path d="M3 21l9-9" />
+        <path d="M12.2 6.2L11 5" />
+    </svg>
+);
+
+// Layers icon (Test Groups)
+export const LayersIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
+    <svg
+        width={size}
+        height={size}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <polygon points="12 2 2 7 12 12 22 7 12 2" />
+        <polyline points="2 17 12 22 22 17" />
+        <polyline points="2 12 12 17 22 12" />
+    </svg>
+);
+
+// Pencil icon (Edit)
+export const PencilIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
+    <svg
+        width={size}
+        height={size}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z" />
+        <path d="M15 5l4 4" />
+    </svg>
+);
+
+// Gauge icon (Benchmark)
+export const GaugeIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
+    <svg
+        width={size}
+        height={size}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <path d="M3.34 19a10 10 0 1 1 17.32 0" />
+        <path d="m12 14 4-4" />
+    </svg>
+);
+
+// Shield icon (Run with Sanitizers)
+export const ShieldIcon: React.FC<IconProps> = ({ size = 16, className, strokeWidth = 2 }) => (
+    <svg
+        width={size}
+        height={size}
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className={className}
+    >
+        <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+    </svg>
+);
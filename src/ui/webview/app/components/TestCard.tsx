@@ -3,21 +3,19 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { TestCaseWithResult, Verdict } from '../types';
+import { BenchmarkStats, TestCaseWithResult, TestGroup } from '../types';
 import {
     PlayIcon,
     TrashIcon,
     CheckIcon,
     XIcon,
-    ClockIcon,
-    SpinnerIcon,
     WarningIcon,
-    CircleIcon,
-    GearIcon,
     DiffIcon,
     DocumentIcon,
-    SquareIcon
+    WandIcon,
+    GaugeIcon
 } from './Icons';
+import { VerdictBadge } from './VerdictBadge';
 import './TestCard.css';
 
 interface TestCardProps {
@@ -25,28 +23,56 @@ interface TestCardProps {
     index: number;
     onRun: (id: string) => void;
     onDelete: (id: string) => void;
-    onUpdate: (id: string, input: string, expected: string, name?: string) => void;
+    onUpdate: (id: string, input: string | undefined, expected: string | undefined, name?: string) => void;
     isExpanded: boolean;
     onToggle: (id: string) => void;
     onViewFull?: (filePath: string) => void;
     onViewDiff?: (testCaseId: string) => void;
+    onGenerateExpected?: (testCaseId: string) => void;
+    onBenchmark?: (testCaseId: string) => void;
+    onOpenLocation?: (filePath: string, line: number, column?: number) => void;
+    groups?: TestGroup[];
+    onSetGroup?: (testCaseId: string, groupId?: string) => void;
 }
 
-// Verdict configuration with SVG icons
-const VERDICT_CONFIG: Record<Verdict, { icon: React.FC<{ size?: number; className?: string }>; label: string }> = {
-    AC: { icon: CheckIcon, label: 'AC' },
-    WA: { icon: XIcon, label: 'WA' },
-    TLE: { icon: ClockIcon, label: 'TLE' },
-    RE: { icon: WarningIcon, label: 'RE' },
-    CE: { icon: GearIcon, label: 'CE' },
-    IE: { icon: WarningIcon, label: 'IE' },
-    PENDING: { icon: CircleIcon, label: 'PENDING' },
-    RUNNING: { icon: SpinnerIcon, label: 'RUNNING' },
-    STOPPED: { icon: SquareIcon, label: 'STOPPED' },
-};
-
 const MAX_DIFF_LINES = 10;
 
+function formatMemory(kb: number): string {
+    return kb < 1024 ? `${Math.round(kb)}KB` : `${(kb / 1024).toFixed(1)}MB`;
+}
+
+function formatTime(ms: number): string {
+    return ms < 10 ? `${ms.toFixed(1)}ms` : `${Math.round(ms)}ms`;
+}
+
+/**
+ * One benchmark measurement: median with spread, and a bar from min to max
+ * on a scale from 0 to the slowest (or largest) run
+ */
+function BenchmarkRow({ label, stats, format }: { label: string; stats: BenchmarkStats; format: (value: number) => string }) {
+    const percent = (value: number) => (stats.max > 0 ? (value / stats.max) * 100 : 0);
+
+    return (
+        <div className="benchmark-row">
+            <span className="benchmark-label">{label}</span>
+            <div
+                className="benchmark-range"
+                title={`min ${format(stats.min)}, median ${format(stats.median)}, max ${format(stats.max)}`}
+            >
+                <div
+                    className="benchmark-range-bar"
+                    style={{ left: `${percent(stats.min)}%`, width: `${percent(stats.max) - percent(stats.min)}%` }}
+                />
+                <div className="benchmark-range-median" style={{ left: `${percent(stats.median)}%` }} />
+            </div>
+            <span className="benchmark-values">
+                {format(stats.median)} ± {format(stats.stddev)}
+                <span className="benchmark-extremes"> ({format(stats.min)}–{format(stats.max)})</span>
+            </span>
+        </div>
+    );
+}
+
 export function TestCard({
     testCase,
     index,
@@ -56,7 +82,12 @@ export function TestCard({
     isExpanded,
     onToggle,
     onViewFull,
-    onViewDiff
+    onViewDiff,
+    onGenerateExpected,
+    onBenchmark,
+    onOpenLocation,
+    groups = [],
+    onSetGroup
 }: TestCardProps) {
     // Local state for editing
     const [input, setInput] = useState(testCase.input);
@@ -70,11 +101,15 @@ export function TestCard({
 
     const result = testCase.result;
     const verdict = result?.verdict || 'PENDING';
-    const verdictConfig = VERDICT_CONFIG[verdict];
-    const VerdictIcon = verdictConfig.icon;
     const time = result?.executionTimeMs && result.executionTimeMs > 0
         ? `${Math.round(result.executionTimeMs)}ms`
         : '';
+    const timeTitle = result?.cpuTimeMs !== undefined
+        ? `Wall time ${Math.round(result.executionTimeMs)}ms, CPU time ${Math.round(result.cpuTimeMs)}ms`
+        : undefined;
+    const memory = result?.memoryUsageKb ? formatMemory(result.memoryUsageKb) : '';
+    // Source line reported by the sanitizer or the uncaught exception
+    const errorLocation = result?.sanitizer ?? result?.exception;
 
     const isMatch = verdict === 'AC';
     const hasDiff = verdict === 'WA' && result?.actualOutput !== undefined;
@@ -111,7 +146,12 @@ export function TestCard({
     const handleSave = () => {
         // Only update if changed
         if (input !== testCase.input || expected !== testCase.expected) {
-            onUpdate(testCase.id, input, expected);
+            // Truncated previews are read-only; their data files are left as they are
+            onUpdate(
+                testCase.id,
+                testCase.inputTruncated ? undefined : input,
+                testCase.expectedTruncated ? undefined : expected
+            );
         }
     };
 
@@ -120,6 +160,11 @@ export function TestCard({
         onRun(testCase.id);
     };
 
+    const handleBenchmarkClick = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        onBenchmark?.(testCase.id);
+    };
+
     const handleDeleteClick = (e: React.MouseEvent) => {
         e.stopPropagation();
         onDelete(testCase.id);
@@ -133,11 +178,9 @@ export function TestCard({
             <div className="test-header" onClick={() => onToggle(testCase.id)}>
                 <div className="test-title">
                     <span className="test-name">TC {index + 1}</span>
-                    <span className={`verdict-badge ${verdict.toLowerCase()}`}>
-                        <VerdictIcon size={10} className={verdict === 'RUNNING' ? 'spinner' : ''} />
-                        <span>{verdictConfig.label}</span>
-                    </span>
-                    {time && <span className="time">{time}</span>}
+                    <VerdictBadge verdict={verdict} />
+                    {time && <span className="time" title={timeTitle}>{time}</span>}
+                    {memory && <span className="time">{memory}</span>}
                 </div>
                 <div className="header-actions">
                     <button
@@ -148,6 +191,16 @@ export function TestCard({
                     >
                         <PlayIcon size={14} />
                     </button>
+                    {onBenchmark && (
+                        <button
+                            className="btn-icon"
+                            onClick={handleBenchmarkClick}
+                            title="Benchmark Test"
+                            disabled={verdict === 'RUNNING'}
+                        >
+                            <GaugeIcon size={14} />
+                        </button>
+                    )}
                     <button
                         className="btn-icon"
                         onClick={handleDeleteClick}
@@ -161,28 +214,90 @@ export function TestCard({
             {/* Expanded Content */}
             {isExpanded && (
                 <div className="test-content">
+                    {/* Group (subtask) */}
+                    {groups.length > 0 && onSetGroup && (
+                        <div className="section group-section">
+                            <label className="section-label" htmlFor={`group-${testCase.id}`}>Group</label>
+                            <select
+                                id={`group-${testCase.id}`}
+                                className="group-select"
+                                value={testCase.groupId ?? ''}
+                                onChange={(e) => onSetGroup(testCase.id, e.target.value || undefined)}
+                            >
+                                <option value="">No group</option>
+                                {groups.map(group => (
+                                    <option key={group.id} value={group.id}>{group.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
                     {/* Input Section */}
                     <div className="section">
-                        <div className="section-label">Input</div>
-                        <textarea
-                            className="code-box"
-                            value={input}
-                            onChange={(e) => setInput(e.target.value)}
-                            onBlur={handleSave}
-                            placeholder="Enter input..."
-                        />
+                        <div className="section-label">
+                            Input
+                            {testCase.inputTruncated && (
+                                <span className="truncated-indicator">(truncated)</span>
+                            )}
+                        </div>
+                        {testCase.inputTruncated ? (
+                            <>
+                                <div className="code-box read-only">{testCase.input}</div>
+                                <button
+                                    className="btn-link"
+                                    onClick={() => onViewFull?.(testCase.inputPath!)}
+                                >
+                                    <DocumentIcon size={12} /> View Full Input
+                                </button>
+                            </>
+                        ) : (
+                            <textarea
+                                className="code-box"
+                                value={input}
+                                onChange={(e) => setInput(e.target.value)}
+                                onBlur={handleSave}
+                                placeholder="Enter input..."
+                            />
+                        )}
                     </div>
 
                     {/* Expected Section */}
                     <div className="section">
-                        <div className="section-label">Expected</div>
-                        <textarea
-                            className={`code-box ${isMatch ? 'match' : ''}`}
-                            value={expected}
-                            onChange={(e) => setExpected(e.target.value)}
-                            onBlur={handleSave}
-                            placeholder="Enter expected output..."
-                        />
+                        <div className="section-label">
+                            Expected
+                            {testCase.expectedTruncated && (
+                                <span className="truncated-indicator">(truncated)</span>
+                            )}
+                            {onGenerateExpected && (
+                                <button
+                                    className="btn-link section-action"
+                                    onClick={() => onGenerateExpected(testCase.id)}
+                                    title="Replace with the reference solution's output"
+                                >
+                                    <WandIcon size={10} />
+                                    From reference
+                                </button>
+                            )}
+                        </div>
+                        {testCase.expectedTruncated ? (
+                            <>
+                                <div className={`code-box read-only ${isMatch ? 'match' : ''}`}>{testCase.expected}</div>
+                                <button
+                                    className="btn-link"
+                                    onClick={() => onViewFull?.(testCase.expectedPath!)}
+                                >
+                                    <DocumentIcon size={12} /> View Full Expected
+                                </button>
+                            </>
+                        ) : (
+                            <textarea
+                                className={`code-box ${isMatch ? 'match' : ''}`}
+                                value={expected}
+                                onChange={(e) => setExpected(e.target.value)}
+                                onBlur={handleSave}
+                                placeholder="Enter expected output..."
+                            />
+                        )}
                     </div>
 
                     {/* Received Section */}
@@ -244,6 +359,43 @@ export function TestCard({
                         </div>
                     )}
 
+                    {/* Distribution of time and memory over repeated runs */}
+                    {result?.benchmark && (
+                        <div className="section">
+                            <div className="section-label">
+                                Benchmark
+                                <span className="section-hint">
+                                    {result.benchmark.runs} {result.benchmark.runs === 1 ? 'run' : 'runs'}
+                                    {result.benchmark.warmupRuns > 0 && `, ${result.benchmark.warmupRuns} warm-up discarded`}
+                                </span>
+                            </div>
+                            {result.benchmark.timeMs && (
+                                <BenchmarkRow label="Time" stats={result.benchmark.timeMs} format={formatTime} />
+                            )}
+                            {result.benchmark.memoryKb && (
+                                <BenchmarkRow label="Memory" stats={result.benchmark.memoryKb} format={formatMemory} />
+                            )}
+                            {result.benchmark.error && (
+                                <div className="section-label error-text">
+                                    <WarningIcon size={12} /> Stopped early: {result.benchmark.error}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Interaction transcript (interactive problems) */}
+                    {result?.transcript !== undefined && (
+                        <div className="section">
+                            <div className="section-label">
+                                Interaction
+                                <span className="section-hint">&gt; solution, &lt; interactor</span>
+                            </div>
+                            <div className="code-box read-only transcript">
+                                {result.transcript || <span className="empty-output">(empty)</span>}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Error Output */}
                     {result?.stderr && (
                         <div className="section">
@@ -268,6 +420,26 @@ export function TestCard({
                             <div className="section-label error-text">
                                 <WarningIcon size={12} /> {result.errorMessage}
                             </div>
+                            {/* Jump to the line reported by the sanitizer or exception */}
+                            {errorLocation?.file && errorLocation.line && (
+                                <button
+                                    className="btn-link"
+                                    onClick={() => onOpenLocation?.(errorLocation.file!, errorLocation.line!, errorLocation.column)}
+                                    title={errorLocation.message}
+                                >
+                                    <DocumentIcon size={12} /> Go to {errorLocation.file.split(/[\\/]/).pop()}:{errorLocation.line}
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Background processes the program left running */}
+                    {!!result?.orphanedProcesses && (
+                        <div className="section">
+                            <div className="section-label section-hint">
+                                <WarningIcon size={12} /> Killed {result.orphanedProcesses} background
+                                {result.orphanedProcesses === 1 ? ' process' : ' processes'} still running after the program exited
+                            </div>
                         </div>
                     )}
                 </div>
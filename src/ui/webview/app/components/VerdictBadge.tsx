@@ -0,0 +1,52 @@
+/**
+ * VerdictBadge Component - Verdict icon and label pill
+ */
+
+import React from 'react';
+import { Verdict } from '../types';
+import {
+    CheckIcon,
+    XIcon,
+    ClockIcon,
+    MemoryIcon,
+    HourglassIcon,
+    PrinterIcon,
+    BanIcon,
+    SpinnerIcon,
+    WarningIcon,
+    CircleIcon,
+    GearIcon,
+    SquareIcon
+} from './Icons';
+
+// Verdict configuration with SVG icons
+const VERDICT_CONFIG: Record<Verdict, { icon: React.FC<{ size?: number; className?: string }>; label: string }> = {
+    AC: { icon: CheckIcon, label: 'AC' },
+    WA: { icon: XIcon, label: 'WA' },
+    TLE: { icon: ClockIcon, label: 'TLE' },
+    MLE: { icon: MemoryIcon, label: 'MLE' },
+    ILE: { icon: HourglassIcon, label: 'ILE' },
+    OLE: { icon: PrinterIcon, label: 'OLE' },
+    RE: { icon: WarningIcon, label: 'RE' },
+    CE: { icon: GearIcon, label: 'CE' },
+    IE: { icon: WarningIcon, label: 'IE' },
+    INVALID: { icon: BanIcon, label: 'INVALID' },
+    PENDING: { icon: CircleIcon, label: 'PENDING' },
+    RUNNING: { icon: SpinnerIcon, label: 'RUNNING' },
+    STOPPED: { icon: SquareIcon, label: 'STOPPED' },
+};
+
+interface VerdictBadgeProps {
+    verdict: Verdict;
+}
+
+export function VerdictBadge({ verdict }: VerdictBadgeProps) {
+    const { icon: VerdictIcon, label } = VERDICT_CONFIG[verdict];
+
+    return (
+        <span className={`verdict-badge ${verdict.toLowerCase()}`}>
+            <VerdictIcon size={10} className={verdict === 'RUNNING' ? 'spinner' : ''} />
+            <span>{label}</span>
+        </span>
+    );
+}
@@ -33,6 +33,10 @@ export function useVSCode(onMessage: (message: ExtensionMessage) => void) {
         postMessage({ type: 'runAll' });
     }, [postMessage]);
 
+    const runAllSanitized = useCallback(() => {
+        postMessage({ type: 'runAllSanitized' });
+    }, [postMessage]);
+
     const runSingle = useCallback((testCaseId: string) => {
         postMessage({ type: 'runSingle', testCaseId });
     }, [postMessage]);
@@ -45,7 +49,7 @@ export function useVSCode(onMessage: (message: ExtensionMessage) => void) {
         postMessage({ type: 'deleteTestCase', testCaseId });
     }, [postMessage]);
 
-    const updateTestCase = useCallback((testCaseId: string, input: string, expected: string, name?: string) => {
+    const updateTestCase = useCallback((testCaseId: string, input: string | undefined, expected: string | undefined, name?: string) => {
         postMessage({ type: 'updateTestCase', testCaseId, input, expected, name });
     }, [postMessage]);
 
@@ -61,6 +65,10 @@ export function useVSCode(onMessage: (message: ExtensionMessage) => void) {
         postMessage({ type: 'viewDiff', testCaseId });
     }, [postMessage]);
 
+    const openLocation = useCallback((filePath: string, line: number, column?: number) => {
+        postMessage({ type: 'openLocation', filePath, line, column });
+    }, [postMessage]);
+
     const stopAll = useCallback(() => {
         postMessage({ type: 'stopAll' });
     }, [postMessage]);
@@ -69,8 +77,45 @@ export function useVSCode(onMessage: (message: ExtensionMessage) => void) {
         postMessage({ type: 'deleteAll' });
     }, [postMessage]);
 
+    const clearProgram = useCallback((role: string) => {
+        postMessage({ type: 'clearProgram', role });
+    }, [postMessage]);
+
+    const removeExtraSource = useCallback((sourcePath: string) => {
+        postMessage({ type: 'removeExtraSource', path: sourcePath });
+    }, [postMessage]);
+
+    const stressTest = useCallback(() => {
+        postMessage({ type: 'stressTest' });
+    }, [postMessage]);
+
+    const generateExpected = useCallback((testCaseIds?: string[]) => {
+        postMessage({ type: 'generateExpected', testCaseIds });
+    }, [postMessage]);
+
+    const benchmark = useCallback((testCaseIds?: string[]) => {
+        postMessage({ type: 'benchmark', testCaseIds });
+    }, [postMessage]);
+
+    const addGroup = useCallback(() => {
+        postMessage({ type: 'addGroup' });
+    }, [postMessage]);
+
+    const editGroup = useCallback((groupId: string) => {
+        postMessage({ type: 'editGroup', groupId });
+    }, [postMessage]);
+
+    const deleteGroup = useCallback((groupId: string) => {
+        postMessage({ type: 'deleteGroup', groupId });
+    }, [postMessage]);
+
+    const setTestGroup = useCallback((testCaseId: string, groupId?: string) => {
+        postMessage({ type: 'setTestGroup', testCaseId, groupId });
+    }, [postMessage]);
+
     return {
         runAll,
+        runAllSanitized,
         runSingle,
         addTestCase,
         deleteTestCase,
@@ -78,8 +123,18 @@ export function useVSCode(onMessage: (message: ExtensionMessage) => void) {
         refresh,
         openFile,
         viewDiff,
+        openLocation,
         stopAll,
         deleteAll,
+        clearProgram,
+        removeExtraSource,
+        stressTest,
+        generateExpected,
+        benchmark,
+        addGroup,
+        editGroup,
+        deleteGroup,
+        setTestGroup,
         postMessage,
     };
 }
@@ -8,15 +8,24 @@ export interface TestCase {
     input: string;
     expected: string;
     createdAt: number;
+    groupId?: string;
+    // Data files; input/expected are previews of them when truncated
+    inputPath?: string;
+    expectedPath?: string;
+    inputTruncated?: boolean;
+    expectedTruncated?: boolean;
 }
 
 export interface JudgeResult {
     testCaseId: string;
     verdict: Verdict;
     executionTimeMs: number;
+    cpuTimeMs?: number;       // CPU time (Linux only)
+    memoryUsageKb?: number;   // Peak resident memory (Linux only)
+    orphanedProcesses?: number;  // Background processes killed after the program exited
     actualOutput: string;
     expectedOutput: string;
-    errorMessage?: string;    // Human-readable error summary (CE/RE/TLE/IE)
+    errorMessage?: string;    // Human-readable error summary (CE/RE/TLE/MLE/ILE/OLE/IE/INVALID)
     // I/O file paths for large outputs
     stdoutPath?: string;
     stderrPath?: string;
@@ -25,12 +34,54 @@ export interface JudgeResult {
     // RE-specific fields
     exitCode?: number;
     signal?: string | null;          // Parsed signal name
+    validatorMessage?: string;       // Why the validator rejected the input
+    sanitizer?: SanitizerReport;     // Parsed AddressSanitizer/UBSan report
+    exception?: ExceptionReport;     // Parsed uncaught exception or panic
+    // Interactive problems
+    transcript?: string;             // "> " solution output, "< " interactor output
+    benchmark?: BenchmarkResult;     // Set by the Benchmark action
+}
+
+export interface BenchmarkStats {
+    min: number;
+    median: number;
+    max: number;
+    stddev: number;
+}
+
+export interface BenchmarkResult {
+    runs: number;                    // Measured runs completed
+    warmupRuns: number;
+    timeMs?: BenchmarkStats;
+    memoryKb?: BenchmarkStats;       // Linux only
+    error?: string;                  // Why the benchmark stopped early
+}
+
+export interface ExceptionReport {
+    type: string;
+    message: string;
+    file?: string;                   // Absolute path of the user's source file
+    line?: number;
+    column?: number;
+}
+
+export interface SanitizerReport {
+    sanitizer: string;
+    kind: string;
+    message: string;
+    file?: string;                   // Absolute path of the faulting source file
+    line?: number;
+    column?: number;
 }
 
 export type Verdict =
     | 'AC'
     | 'WA'
     | 'TLE'
+    | 'MLE'
+    | 'ILE'
+    | 'OLE'
+    | 'INVALID'
     | 'RE'
     | 'CE'
     | 'IE'
@@ -42,14 +93,66 @@ export interface TestCaseWithResult extends TestCase {
     result?: JudgeResult;
 }
 
+/** Test group (subtask) worth a number of points */
+export interface TestGroup {
+    id: string;
+    name: string;
+    points: number;
+    dependencies?: string[];
+}
+
+export interface GroupScore {
+    groupId: string;
+    name: string;
+    points: number;
+    earned: number;
+    verdict: Verdict;
+    passed: boolean;
+    blockedBy?: string[];            // Names of dependencies that did not pass
+    testCount: number;
+    passedCount: number;
+}
+
+export interface ScoreReport {
+    groups: GroupScore[];
+    total: number;
+    maxTotal: number;
+}
+
+/** Helper program (checker, ...) attached to the current file */
+export interface LinkedProgram {
+    role: string;
+    label: string;
+    path: string;
+    fileName: string;
+}
+
 export interface UpdateMessage {
     type: 'update';
     filePath: string;
     testCases: TestCaseWithResult[];
+    programs: LinkedProgram[];
+    extraSources: LinkedProgram[];   // Sources compiled together with the file
+    groups: TestGroup[];
+    score?: ScoreReport;             // Only when the file has groups
+    sanitizable: boolean;            // The file can be built with sanitizers (C/C++)
+    parallelRun?: ParallelRunInfo;   // Set when the last Run All judged several tests at once
+}
+
+export interface ParallelRunInfo {
+    concurrency: number;  // Tests judged at once
+    cores: number;
 }
 
 export interface NoFileMessage {
     type: 'noFile';
 }
 
-export type ExtensionMessage = UpdateMessage | NoFileMessage;
+export interface StressProgressMessage {
+    type: 'stressProgress';
+    running: boolean;
+    iteration: number;
+    elapsedMs: number;
+}
+
+export type ExtensionMessage = UpdateMessage | NoFileMessage | StressProgressMessage;
@@ -4,13 +4,54 @@
  */
 
 import * as vscode from 'vscode';
+import * as os from 'os';
 import * as path from 'path';
 import { TestCaseManager } from '../../storage/testcase-manager';
 import { JudgeService } from '../../core/judge-service';
-import { JudgeResult, TestCaseWithData, Verdict } from '../../types';
+import {
+  JudgeResult,
+  TestCaseWithData,
+  Verdict,
+  ProgramRole,
+  JudgeOptions,
+  ScoreReport,
+  TestGroup,
+  CompileOptions
+} from '../../types';
 import { setDiffContent, createDiffUri } from './diff-provider';
-import { getTimeLimitMs, getComparisonMode, getExecutionMode } from '../../config/settings';
+import {
+  getTimeLimitMs,
+  getTimeLimitMode,
+  getMemoryLimitMb,
+  getOutputLimitMb,
+  getCompileTimeLimitMs,
+  getSandboxOptions,
+  getCacheLimits,
+  getComparisonMode,
+  getExecutionMode,
+  getMaxParallelTests,
+  getFloatTolerance,
+  getStressMaxIterations,
+  getBenchmarkOptions,
+  getBuildProfile
+} from '../../config/settings';
 import { languageRegistry } from '../../core/language-registry';
+import { StressTester } from '../../core/stress-tester';
+import { ReferenceRunner } from '../../core/reference-runner';
+import { computeScore, dependsOn } from '../../core/scoring';
+
+/** Display names for helper program roles */
+const PROGRAM_ROLE_LABELS: Record<ProgramRole, string> = {
+  checker: 'Checker',
+  interactor: 'Interactor',
+  generator: 'Generator',
+  bruteForce: 'Brute Force',
+  reference: 'Reference',
+  validator: 'Validator',
+};
+
+/** Minimum interval between stress test progress updates in milliseconds */
+const STRESS_PROGRESS_INTERVAL_MS = 100;
 
 export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'fastjudge.panel';
@@ -21,6 +62,8 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
   private _results: Map<string, JudgeResult> = new Map();
   // Per-file run state: tracks abort controller and running count per file
   private _fileRunState: Map<string, { controller: AbortController; count: number }> = new Map();
+  // Files whose last Run All judged several tests at once, with how many (their timings may be inflated)
+  private _parallelRuns: Map<string, number> = new Map();
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
@@ -58,7 +101,15 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
    */
   private applySettings(): void {
     this._judgeService.setComparisonMode(getComparisonMode());
+    this._judgeService.setFloatTolerance(getFloatTolerance());
     this._judgeService.setTimeLimit(getTimeLimitMs());
+    this._judgeService.setTimeLimitMode(getTimeLimitMode());
+    this._judgeService.setMemoryLimit(getMemoryLimitMb());
+    this._judgeService.setOutputLimit(getOutputLimitMb());
+    this._judgeService.setCompileTimeLimit(getCompileTimeLimitMs());
+    this._judgeService.setCacheLimits(getCacheLimits());
+    this._judgeService.setSandbox(getSandboxOptions());
+    this._judgeService.setMaxParallelTests(getMaxParallelTests());
   }
 
   public resolveWebviewView(
@@ -79,14 +130,15 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
     webviewView.webview.onDidReceiveMessage(async (data) => {
       const filePath = vscode.window.activeTextEditor?.document.uri.fsPath;
       switch (data.type) {
-        case 'runAll': {
+        case 'runAll':
+        case 'runAllSanitized': {
           if (!filePath) { return; }
           const state = this._fileRunState.get(filePath);
           if (state && state.count > 0) {
             vscode.window.showInformationMessage('Tests are already running for this file.');
             return;
           }
-          await this.runAllTests();
+          await this.runAllTests({ sanitize: data.type === 'runAllSanitized' });
           break;
         }
         case 'runSingle':
@@ -122,6 +174,9 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
         case 'viewDiff':
           await this.openDiffView(data.testCaseId);
           break;
+        case 'openLocation':
+          await this.openSourceLocation(data.filePath, data.line, data.column);
+          break;
         case 'refresh':
           await this.refresh();
           break;
@@ -142,6 +197,33 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
         case 'deleteAll':
           await this.deleteAllTestCases();
           break;
+        case 'clearProgram':
+          await this.clearLinkedProgram(data.role);
+          break;
+        case 'removeExtraSource':
+          await this.removeExtraSources(data.path);
+          break;
+        case 'stressTest':
+          await this.runStressTest();
+          break;
+        case 'generateExpected':
+          await this.generateExpectedOutputs(data.testCaseIds);
+          break;
+        case 'benchmark':
+          await this.benchmarkTests(data.testCaseIds);
+          break;
+        case 'addGroup':
+          await this.addTestGroup();
+          break;
+        case 'editGroup':
+          await this.editTestGroup(data.groupId);
+          break;
+        case 'deleteGroup':
+          await this.deleteTestGroup(data.groupId);
+          break;
+        case 'setTestGroup':
+          await this.setTestCaseGroup(data.testCaseId, data.groupId);
+          break;
       }
     });
 
@@ -195,32 +277,60 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
       result: this._results.get(tc.id),
     }));
 
+    const programs = Object.entries(this._testCaseManager.getLinkedPrograms(filePath))
+      .map(([role, programPath]) => ({
+        role,
+        label: PROGRAM_ROLE_LABELS[role as ProgramRole],
+        path: programPath,
+        fileName: path.basename(programPath),
+      }));
+
+    const extraSources = this._testCaseManager.getExtraSources(filePath)
+      .map(sourcePath => ({
+        role: 'extraSource',
+        label: 'Source',
+        path: sourcePath,
+        fileName: path.basename(sourcePath),
+      }));
+
+    const groups = this._testCaseManager.getGroups(filePath);
+
     this._postMessage({
       type: 'update',
       filePath: path.basename(filePath),
       testCases: testCasesWithResults,
+      programs,
+      extraSources,
+      groups,
+      score: groups.length > 0 ? computeScore(groups, testCases, this._results) : undefined,
+      sanitizable: this._judgeService.supportsSanitizers(filePath),
+      parallelRun: this._parallelRuns.has(filePath)
+        ? { concurrency: this._parallelRuns.get(filePath)!, cores: os.cpus().length }
+        : undefined,
     });
   }
 
   /**
-   * Run all test cases for the active file
+   * Run all test cases for the active file, optionally with a sanitizer build.
+   * Returns the score when the file has test groups.
    */
-  public async runAllTests(): Promise<void> {
+  public async runAllTests(compileOptions: CompileOptions = {}): Promise<ScoreReport | undefined> {
     // Apply current settings before running
     this.applySettings();
 
     const activeEditor = vscode.window.activeTextEditor;
     if (!activeEditor) {
       vscode.window.showErrorMessage('No active file');
-      return;
+      return undefined;
     }
 
     const filePath = activeEditor.document.uri.fsPath;
     const testCases = await this._testCaseManager.getAllTestCasesWithData(filePath);
+    const programs = this._testCaseManager.getLinkedPrograms(filePath);
 
     if (testCases.length === 0) {
       vscode.window.showInformationMessage('No test cases to run');
-      return;
+      return undefined;
     }
 
     // Get or create run state for this file (abort any previous run)
@@ -237,7 +347,7 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
     await vscode.window.withProgress(
       {
         location: { viewId: FastJudgeViewProvider.viewType },
-        title: 'Running tests...',
+        title: compileOptions.sanitize ? 'Running tests with sanitizers...' : 'Running tests...',
       },
       async () => {
         // Mark all as running
@@ -254,17 +364,19 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
         await this.refresh();
 
         // Compile first
-        const compileResult = await this._judgeService.compile(filePath);
+        const profile = getBuildProfile();
+        const extraSources = this._testCaseManager.getExtraSources(filePath);
+        const compileResult = await this._judgeService.compile(filePath, { ...compileOptions, profile, extraSources, signal });
         if (!compileResult.success) {
-          // Mark all as CE
+          // Mark all as CE (or STOPPED if the compile was cancelled)
           for (const tc of testCases) {
             this._results.set(tc.id, {
               testCaseId: tc.id,
-              verdict: 'CE',
+              verdict: compileResult.aborted ? 'STOPPED' : 'CE',
               executionTimeMs: 0,
               actualOutput: '',
               expectedOutput: tc.expected,
-              errorMessage: compileResult.error,
+              errorMessage: compileResult.aborted ? undefined : compileResult.error,
             });
           }
           await this.refresh();
@@ -273,9 +385,48 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
           return;
         }
 
+        // Compile helper programs (checker, ...)
+        const linked = await this._judgeService.compileLinkedPrograms(programs, signal);
+        if (linked.error) {
+          // Mark all as IE (or STOPPED if a compile was cancelled)
+          for (const tc of testCases) {
+            this._results.set(tc.id, {
+              testCaseId: tc.id,
+              verdict: linked.aborted ? 'STOPPED' : 'IE',
+              executionTimeMs: 0,
+              actualOutput: '',
+              expectedOutput: tc.expected,
+              errorMessage: linked.error,
+            });
+          }
+          await this.refresh();
+          runState.count = 0;
+          this.cleanupRunState(filePath);
+          return;
+        }
+
+        // Sanitizer builds run with relaxed limits in every execution mode
+        const judgeOptions: JudgeOptions = {
+          ...linked.options,
+          memoryLimitMb: this._testCaseManager.getFileSettings(filePath).memoryLimitMb,
+          sanitize: compileOptions.sanitize,
+          profile,
+          extraSources,
+        };
+
         // Get execution mode from settings
         const executionMode = getExecutionMode();
 
+        // Tests judged side by side compete for the CPU; the panel warns until the next Run All
+        const concurrency = executionMode === 'parallel'
+          ? Math.min(this._judgeService.getParallelism(), testCases.length)
+          : 1;
+        if (concurrency > 1) {
+          this._parallelRuns.set(filePath, concurrency);
+        } else {
+          this._parallelRuns.delete(filePath);
+        }
+
         // Detect language once for all test cases
         const provider = languageRegistry.detectProvider(filePath);
         const language = provider?.id;
@@ -284,7 +435,7 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
 
         if (executionMode === 'sequential') {
           // Sequential batch mode (old approach - update UI only at end)
-          const batchResults = await this._judgeService.judgeAll(filePath, testCases, signal);
+          const batchResults = await this._judgeService.judgeAll(filePath, testCases, signal, programs, judgeOptions);
           for (const result of batchResults) {
             this._results.set(result.testCaseId, result);
             results.push(result);
@@ -293,20 +444,20 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
           this.cleanupRunState(filePath);
           await this.refresh();
         } else if (executionMode === 'parallel') {
-          // Parallel execution with live updates
-          const promises = testCases.map(async (tc) => {
-            const result = await this._judgeService.judgeTestCase(
-              filePath,
-              compileResult.outputDir!,
-              tc,
-              language,
-              signal
-            );
-            this._results.set(result.testCaseId, result);
-            await this.refresh(); // Live update!
-            return result;
-          });
-          results.push(...(await Promise.all(promises)));
+          // Parallel execution (bounded by the judge's worker pool) with live updates
+          const parallelResults = await this._judgeService.judgeParallel(
+            filePath,
+            compileResult.outputDir!,
+            testCases,
+            language,
+            signal,
+            judgeOptions,
+            async (result) => {
+              this._results.set(result.testCaseId, result);
+              await this.refresh(); // Live update!
+            }
+          );
+          results.push(...parallelResults);
           runState.count = 0;
           this.cleanupRunState(filePath);
           await this.refresh();
@@ -318,7 +469,8 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
               compileResult.outputDir!,
               tc,
               language,
-              signal
+              signal,
+              judgeOptions
             );
 
             this._results.set(result.testCaseId, result);
@@ -331,6 +483,18 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
         }
       }
     );
+
+    const groups = this._testCaseManager.getGroups(filePath);
+    if (groups.length === 0 || signal.aborted) {
+      return undefined;
+    }
+
+    const score = computeScore(groups, testCases, this._results);
+    const failed = score.groups.filter(g => !g.passed).map(g => g.name);
+    vscode.window.showInformationMessage(
+      `Score: ${score.total} / ${score.maxTotal}${failed.length > 0 ? ` (not passed: ${failed.join(', ')})` : ''}`
+    );
+    return score;
   }
 
   /**
@@ -368,7 +532,13 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
     await this.refresh();
 
     // Run test with signal
-    const results = await this._judgeService.judgeAll(filePath, [testCase], signal);
+    const programs = this._testCaseManager.getLinkedPrograms(filePath);
+    const { memoryLimitMb } = this._testCaseManager.getFileSettings(filePath);
+    const results = await this._judgeService.judgeAll(filePath, [testCase], signal, programs, {
+      memoryLimitMb,
+      profile: getBuildProfile(),
+      extraSources: this._testCaseManager.getExtraSources(filePath),
+    });
     if (results.length > 0) {
       this._results.set(testCaseId, results[0]);
     }
@@ -378,6 +548,261 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
     await this.refresh();
   }
 
+  /**
+   * Benchmark test cases of the active file (all of them without explicit IDs):
+   * each test is judged, then timed over repeated runs
+   */
+  public async benchmarkTests(testCaseIds?: string[]): Promise<void> {
+    this.applySettings();
+
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      vscode.window.showErrorMessage('No active file');
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    const allTestCases = await this._testCaseManager.getAllTestCasesWithData(filePath);
+    const testCases = testCaseIds
+      ? allTestCases.filter(tc => testCaseIds.includes(tc.id))
+      : allTestCases;
+
+    if (testCases.length === 0) {
+      vscode.window.showInformationMessage('No test cases to benchmark');
+      return;
+    }
+
+    const existingState = this._fileRunState.get(filePath);
+    if (existingState && existingState.count > 0) {
+      vscode.window.showInformationMessage('Tests are already running for this file.');
+      return;
+    }
+
+    // Registered as a run so that "Stop All" aborts it
+    const runState = this.getOrCreateRunState(filePath);
+    runState.controller = new AbortController();
+    runState.count = testCases.length;
+
+    for (const tc of testCases) {
+      this._results.set(tc.id, {
+        testCaseId: tc.id,
+        verdict: 'RUNNING',
+        executionTimeMs: 0,
+        actualOutput: '',
+        expectedOutput: tc.expected,
+      });
+    }
+    await this.refresh();
+
+    const benchmark = getBenchmarkOptions();
+    const results = await vscode.window.withProgress(
+      {
+        location: { viewId: FastJudgeViewProvider.viewType },
+        title: `Benchmarking (${benchmark.runs} runs per test)...`,
+      },
+      () => this._judgeService.benchmarkAll(
+        filePath,
+        testCases,
+        benchmark,
+        runState.controller.signal,
+        this._testCaseManager.getLinkedPrograms(filePath),
+        {
+          memoryLimitMb: this._testCaseManager.getFileSettings(filePath).memoryLimitMb,
+          profile: getBuildProfile(),
+          extraSources: this._testCaseManager.getExtraSources(filePath),
+        },
+        async (result) => {
+          this._results.set(result.testCaseId, result);
+          await this.refresh(); // Live update!
+        }
+      )
+    );
+
+    // Compile errors are reported without running any test
+    for (const result of results) {
+      this._results.set(result.testCaseId, result);
+    }
+    runState.count = 0;
+    this.cleanupRunState(filePath);
+    await this.refresh();
+  }
+
+  /**
+   * Stress test the active file against its brute-force solution and save
+   * the first failing input as a new test case
+   */
+  public async runStressTest(): Promise<void> {
+    this.applySettings();
+
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      vscode.window.showErrorMessage('No active file');
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    const programs = this._testCaseManager.getLinkedPrograms(filePath);
+    if (!programs.generator || !programs.bruteForce) {
+      vscode.window.showErrorMessage(
+        'Stress testing needs a generator and a brute-force solution. Use "FastJudge: Set Generator for Current File" and "FastJudge: Set Brute Force for Current File".'
+      );
+      return;
+    }
+
+    const existingState = this._fileRunState.get(filePath);
+    if (existingState && existingState.count > 0) {
+      vscode.window.showInformationMessage('Tests are already running for this file.');
+      return;
+    }
+
+    // Registered as a run so that "Stop All" aborts it
+    const runState = this.getOrCreateRunState(filePath);
+    runState.controller = new AbortController();
+    runState.count = 1;
+
+    let lastProgressAt = 0;
+    this._postMessage({ type: 'stressProgress', running: true, iteration: 0, elapsedMs: 0 });
+
+    const tester = new StressTester(this._judgeService);
+    const result = await tester.run(filePath, programs, {
+      maxIterations: getStressMaxIterations(),
+      memoryLimitMb: this._testCaseManager.getFileSettings(filePath).memoryLimitMb,
+      profile: getBuildProfile(),
+      extraSources: this._testCaseManager.getExtraSources(filePath),
+      onProgress: (progress) => {
+        const now = Date.now();
+        if (now - lastProgressAt >= STRESS_PROGRESS_INTERVAL_MS) {
+          lastProgressAt = now;
+          this._postMessage({ type: 'stressProgress', running: true, ...progress });
+        }
+      },
+    }, runState.controller.signal);
+
+    runState.count = 0;
+    this.cleanupRunState(filePath);
+    this._postMessage({
+      type: 'stressProgress',
+      running: false,
+      iteration: result.iterations,
+      elapsedMs: result.elapsedMs,
+    });
+
+    const summary = `${result.iterations} tests in ${(result.elapsedMs / 1000).toFixed(1)}s`;
+    switch (result.status) {
+      case 'found': {
+        const testCase = await this._testCaseManager.addTestCase(
+          filePath,
+          result.input!,
+          result.expected!,
+          `Stress seed ${result.seed}`
+        );
+        // The failing run's output files move along with it
+        const judgeResult = await this._judgeService.moveResults(result.judgeResult!.testCaseId, testCase.id);
+        this._results.set(testCase.id, judgeResult ?? { ...result.judgeResult!, testCaseId: testCase.id });
+        await this.refresh();
+        vscode.window.showWarningMessage(
+          `Stress test found a failing test (${result.judgeResult!.verdict}, seed ${result.seed}) after ${summary}. It was added as a test case.`
+        );
+        break;
+      }
+      case 'passed':
+        vscode.window.showInformationMessage(`Stress test passed: ${summary}.`);
+        break;
+      case 'stopped':
+        vscode.window.showInformationMessage(`Stress test stopped after ${summary}.`);
+        break;
+      case 'error':
+        vscode.window.showErrorMessage(
+          `Stress test failed${result.seed !== undefined ? ` on seed ${result.seed}` : ''}: ${result.error}`
+        );
+        break;
+    }
+  }
+
+  /**
+   * Fill in expected outputs by running the reference solution.
+   * Without explicit IDs, only test cases with an empty expected output are filled.
+   */
+  public async generateExpectedOutputs(testCaseIds?: string[]): Promise<void> {
+    this.applySettings();
+
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      vscode.window.showErrorMessage('No active file');
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    const referencePath = this._testCaseManager.getLinkedPrograms(filePath).reference;
+    if (!referencePath) {
+      vscode.window.showErrorMessage(
+        'No reference solution set. Use "FastJudge: Set Reference Solution for Current File" first.'
+      );
+      return;
+    }
+
+    const allTestCases = await this._testCaseManager.getAllTestCasesWithData(filePath);
+    const testCases = testCaseIds
+      ? allTestCases.filter(tc => testCaseIds.includes(tc.id))
+      : allTestCases.filter(tc => tc.expected.trim() === '');
+
+    if (testCases.length === 0) {
+      vscode.window.showInformationMessage('No test cases with an empty expected output');
+      return;
+    }
+
+    const existingState = this._fileRunState.get(filePath);
+    if (existingState && existingState.count > 0) {
+      vscode.window.showInformationMessage('Tests are already running for this file.');
+      return;
+    }
+
+    // Registered as a run so that "Stop All" aborts it
+    const runState = this.getOrCreateRunState(filePath);
+    runState.controller = new AbortController();
+    runState.count = 1;
+
+    const { outputs, error } = await vscode.window.withProgress(
+      {
+        location: { viewId: FastJudgeViewProvider.viewType },
+        title: 'Generating expected outputs...',
+      },
+      () => new ReferenceRunner(this._judgeService).run(referencePath, testCases, runState.controller.signal)
+    );
+
+    runState.count = 0;
+    this.cleanupRunState(filePath);
+
+    if (error) {
+      vscode.window.showErrorMessage(error);
+      return;
+    }
+
+    const failures: string[] = [];
+    for (const output of outputs) {
+      if (output.output === undefined) {
+        const testCase = testCases.find(tc => tc.id === output.testCaseId)!;
+        failures.push(`${testCase.name}: ${output.error}`);
+        continue;
+      }
+      await this._testCaseManager.updateTestCase(filePath, output.testCaseId, { expected: output.output });
+      // Old verdict was judged against a different expected output
+      this._results.delete(output.testCaseId);
+    }
+    await this.refresh();
+
+    const generated = outputs.length - failures.length;
+    if (failures.length > 0) {
+      vscode.window.showWarningMessage(
+        `Generated ${generated} of ${testCases.length} expected outputs. The reference solution failed on ${failures.join('; ')}`
+      );
+    } else if (outputs.length < testCases.length) {
+      vscode.window.showInformationMessage(`Stopped after generating ${generated} of ${testCases.length} expected outputs.`);
+    } else {
+      vscode.window.showInformationMessage(`Generated ${generated} expected outputs.`);
+    }
+  }
+
   /**
    * Add a new test case
    */
@@ -420,12 +845,12 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * Update a test case
+   * Update a test case (input or expected left undefined is kept as it is)
    */
   public async updateTestCase(
     testCaseId: string,
-    input: string,
-    expected: string,
+    input: string | undefined,
+    expected: string | undefined,
     name?: string
   ): Promise<void> {
     const activeEditor = vscode.window.activeTextEditor;
@@ -472,6 +897,269 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Create a test group for the active file
+   */
+  public async addTestGroup(): Promise<void> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      vscode.window.showErrorMessage('No active file');
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    const groups = this._testCaseManager.getGroups(filePath);
+    const values = await this.promptTestGroup(groups, {
+      name: `Subtask ${groups.length + 1}`,
+      points: 0,
+    });
+    if (!values) {
+      return;
+    }
+
+    await this._testCaseManager.addGroup(filePath, values.name, values.points, values.dependencies);
+    await this.refresh();
+  }
+
+  /**
+   * Edit a test group's name, points and dependencies.
+   * Without an ID, the group is picked from a list.
+   */
+  public async editTestGroup(groupId?: string): Promise<void> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      vscode.window.showErrorMessage('No active file');
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    const groups = this._testCaseManager.getGroups(filePath);
+    if (groups.length === 0) {
+      vscode.window.showInformationMessage('No test groups. Use "FastJudge: Add Test Group" first.');
+      return;
+    }
+
+    let group = groups.find(g => g.id === groupId);
+    if (!group) {
+      const selected = await vscode.window.showQuickPick(
+        groups.map(g => ({ label: g.name, description: `${g.points} pts`, group: g })),
+        { placeHolder: 'Select a test group to edit' }
+      );
+      if (!selected) {
+        return;
+      }
+      group = selected.group;
+    }
+
+    const values = await this.promptTestGroup(groups, group);
+    if (!values) {
+      return;
+    }
+
+    await this._testCaseManager.updateGroup(filePath, group.id, values);
+    await this.refresh();
+  }
+
+  /**
+   * Delete a test group with confirmation; its tests become ungrouped
+   */
+  public async deleteTestGroup(groupId: string): Promise<void> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    const group = this._testCaseManager.getGroups(filePath).find(g => g.id === groupId);
+    if (!group) {
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete group "${group.name}"? Its test cases are kept without a group.`,
+      { modal: true },
+      'Delete Group'
+    );
+
+    if (confirm === 'Delete Group') {
+      await this._testCaseManager.deleteGroup(filePath, groupId);
+      await this.refresh();
+    }
+  }
+
+  /**
+   * Move a test case into a group, or out of any group
+   */
+  public async setTestCaseGroup(testCaseId: string, groupId?: string): Promise<void> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    await this._testCaseManager.setTestCaseGroup(filePath, testCaseId, groupId || undefined);
+    await this.refresh();
+  }
+
+  /**
+   * Ask for a group's name, points and dependencies.
+   * Groups that (transitively) depend on the edited group are not offered
+   * as dependencies, so the dependency graph stays acyclic.
+   */
+  private async promptTestGroup(
+    groups: TestGroup[],
+    current: Pick<TestGroup, 'name' | 'points'> & Partial<TestGroup>
+  ): Promise<{ name: string; points: number; dependencies: string[] } | undefined> {
+    const name = await vscode.window.showInputBox({
+      prompt: 'Group name',
+      value: current.name,
+      validateInput: (value) => {
+        if (!value.trim()) {
+          return 'Group name cannot be empty';
+        }
+        return null;
+      },
+    });
+    if (name === undefined) {
+      return undefined;
+    }
+
+    const points = await vscode.window.showInputBox({
+      prompt: `Points for ${name.trim()}`,
+      value: String(current.points),
+      validateInput: (value) => {
+        const parsed = Number(value);
+        if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0) {
+          return 'Points must be a non-negative number';
+        }
+        return null;
+      },
+    });
+    if (points === undefined) {
+      return undefined;
+    }
+
+    const candidates = groups.filter(g => g.id !== current.id && !(current.id && dependsOn(groups, g.id, current.id)));
+    let dependencies: string[] = [];
+    if (candidates.length > 0) {
+      const selected = await vscode.window.showQuickPick(
+        candidates.map(g => ({
+          label: g.name,
+          description: `${g.points} pts`,
+          picked: current.dependencies?.includes(g.id) ?? false,
+          group: g,
+        })),
+        {
+          canPickMany: true,
+          placeHolder: `Groups that must pass before ${name.trim()} scores (optional)`,
+        }
+      );
+      if (!selected) {
+        return undefined;
+      }
+      dependencies = selected.map(item => item.group.id);
+    }
+
+    return { name: name.trim(), points: Number(points), dependencies };
+  }
+
+  /**
+   * Pick a helper program (checker, ...) for the active file
+   */
+  public async selectLinkedProgram(role: ProgramRole): Promise<void> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      vscode.window.showErrorMessage('No active file');
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    const label = PROGRAM_ROLE_LABELS[role];
+    const extensions = languageRegistry.getAllProviders()
+      .flatMap(p => p.extensions)
+      .map(ext => ext.replace('.', ''));
+
+    const selected = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      defaultUri: vscode.Uri.file(path.dirname(filePath)),
+      filters: { [`${label} source`]: extensions },
+      openLabel: `Set ${label}`,
+      title: `Select ${label.toLowerCase()} for ${path.basename(filePath)}`,
+    });
+
+    if (!selected || selected.length === 0) {
+      return;
+    }
+
+    await this._testCaseManager.setLinkedProgram(filePath, role, selected[0].fsPath);
+    vscode.window.showInformationMessage(`${label} for ${path.basename(filePath)}: ${path.basename(selected[0].fsPath)}`);
+    await this.refresh();
+  }
+
+  /**
+   * Detach a helper program from the active file
+   */
+  public async clearLinkedProgram(role: ProgramRole): Promise<void> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    await this._testCaseManager.setLinkedProgram(filePath, role, undefined);
+    await this.refresh();
+  }
+
+  /**
+   * Pick additional sources compiled together with the active file (e.g. helper .cpp files)
+   */
+  public async addExtraSources(): Promise<void> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      vscode.window.showErrorMessage('No active file');
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    const selected = await vscode.window.showOpenDialog({
+      canSelectMany: true,
+      defaultUri: vscode.Uri.file(path.dirname(filePath)),
+      filters: { 'Source files': [path.extname(filePath).replace('.', '')] },
+      openLabel: 'Add Sources',
+      title: `Select sources to compile with ${path.basename(filePath)}`,
+    });
+
+    if (!selected || selected.length === 0) {
+      return;
+    }
+
+    const current = this._testCaseManager.getExtraSources(filePath);
+    const added = selected
+      .map(uri => uri.fsPath)
+      .filter(sourcePath => sourcePath !== filePath && !current.includes(sourcePath));
+
+    await this._testCaseManager.setExtraSources(filePath, [...current, ...added]);
+    await this.refresh();
+  }
+
+  /**
+   * Stop compiling a source (or all extra sources) with the active file
+   */
+  public async removeExtraSources(sourcePath?: string): Promise<void> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!activeEditor) {
+      return;
+    }
+
+    const filePath = activeEditor.document.uri.fsPath;
+    const remaining = sourcePath
+      ? this._testCaseManager.getExtraSources(filePath).filter(p => p !== sourcePath)
+      : [];
+
+    await this._testCaseManager.setExtraSources(filePath, remaining);
+    await this.refresh();
+  }
+
   /**
    * Open VS Code diff view for a test case
    */
@@ -510,6 +1198,20 @@ export class FastJudgeViewProvider implements vscode.WebviewViewProvider {
     );
   }
 
+  /**
+   * Open a source file at a line (e.g. the location of a sanitizer report)
+   */
+  public async openSourceLocation(filePath: string, line: number, column = 1): Promise<void> {
+    const position = new vscode.Position(Math.max(line - 1, 0), Math.max(column - 1, 0));
+    try {
+      await vscode.window.showTextDocument(vscode.Uri.file(filePath), {
+        selection: new vscode.Range(position, position),
+      });
+    } catch {
+      vscode.window.showErrorMessage(`Cannot open ${filePath}`);
+    }
+  }
+
   /**
    * Post message to webview
    */